@@ -1,12 +1,20 @@
 import { NextResponse } from "next/server";
 import type { NextRequest } from "next/server";
 import { getToken } from "next-auth/jwt";
+import { serverConfig } from "@/lib/config/server";
+import { getSessionExpiryReason } from "@/lib/server/session-policy";
 
 export async function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl;
 
   // Routes that require authentication
-  const protectedRoutes = ["/profile", "/settings", "/post", "/update"];
+  const protectedRoutes = [
+    "/profile",
+    "/settings",
+    "/post",
+    "/update",
+    "/auth/reauthenticate",
+  ];
   const isProtectedRoute = protectedRoutes.some((route) =>
     pathname.startsWith(route)
   );
@@ -18,10 +26,11 @@ export async function middleware(request: NextRequest) {
   if (isProtectedRoute) {
     const token = await getToken({
       req: request,
-      secret: process.env.NEXTAUTH_SECRET,
+      secret: serverConfig.nextAuthSecret,
     });
 
-    if (!token) {
+    // Idle or past its lifetime: the cookie is cleared on the next session read
+    if (!token || getSessionExpiryReason(token)) {
       const url = new URL("/auth/login", request.url);
       url.searchParams.set("callbackUrl", encodeURIComponent(request.url));
       return NextResponse.redirect(url);
@@ -31,10 +40,10 @@ export async function middleware(request: NextRequest) {
   if (isAuthRoute) {
     const token = await getToken({
       req: request,
-      secret: process.env.NEXTAUTH_SECRET,
+      secret: serverConfig.nextAuthSecret,
     });
 
-    if (token) {
+    if (token && !getSessionExpiryReason(token)) {
       return NextResponse.redirect(new URL("/", request.url));
     }
   }
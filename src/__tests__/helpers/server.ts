@@ -0,0 +1,38 @@
+// Test setup for server-side modules (API routes, NextAuth). They read their
+// configuration on import, so the environment is pointed at an in-process
+// mock backend first and the modules are imported afresh afterwards.
+import { vi } from "vitest";
+import {
+  createMockAuthBackend,
+  MOCK_JWT_ISSUER,
+  type MockAuthBackendOptions,
+} from "@/mocks/auth-backend/server";
+
+export const TEST_NEXTAUTH_SECRET = "test-nextauth-secret";
+
+export async function startServerBackend(
+  options: MockAuthBackendOptions = {},
+  env: Record<string, string> = {}
+) {
+  const backend = createMockAuthBackend(options);
+  const url = await backend.listen(0);
+
+  vi.stubEnv("NEXTAUTH_SECRET", TEST_NEXTAUTH_SECRET);
+  vi.stubEnv("NEXT_PUBLIC_API_URL", url);
+  vi.stubEnv("BACKEND_URL", url);
+  vi.stubEnv("AUTH_JWT_SECRET", backend.jwtSecret);
+  vi.stubEnv("AUTH_JWT_ISSUER", MOCK_JWT_ISSUER);
+  for (const [name, value] of Object.entries(env)) {
+    vi.stubEnv(name, value);
+  }
+  vi.resetModules();
+
+  return {
+    backend,
+    url,
+    async close() {
+      vi.unstubAllEnvs();
+      await backend.close();
+    },
+  };
+}
@@ -0,0 +1,269 @@
+import type { JWT } from "next-auth/jwt";
+import type { Session } from "next-auth";
+import type { UserinfoEndpointHandler } from "next-auth/providers/oauth";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { startServerBackend } from "@/__tests__/helpers/server";
+
+const USER = { email: "ayu@example.com", full_name: "Ayu", password: "Rahasia123!", is_verified: true };
+
+describe("NextAuth session refresh", () => {
+  let server: Awaited<ReturnType<typeof startServerBackend>>;
+  let callbacks: typeof import("@/pages/api/auth/[...nextauth]").authOptions.callbacks;
+  let token: JWT;
+
+  // The token the jwt callback keeps after a password sign-in
+  const signIn = async () => {
+    const { createServerApiClient } = await import("@/lib/server/api");
+    const tokens = await createServerApiClient().login({ email: USER.email, password: USER.password });
+    const now = Date.now();
+    return {
+      sub: tokens.user.id,
+      signedInAt: now,
+      lastActivityAt: now,
+      authTime: now,
+      rememberMe: true,
+      accessToken: tokens.access_token,
+      refreshToken: tokens.refresh_token,
+      accessTokenExpires: now + tokens.expires_in * 1000,
+    } satisfies JWT;
+  };
+
+  // What useSession().update({ refresh: true }) resolves to
+  const updateSession = async (current: JWT) => {
+    const refreshed = await callbacks!.jwt!({
+      token: current,
+      trigger: "update",
+      session: { refresh: true },
+    } as any);
+    const session = await callbacks!.session!({
+      session: { user: { id: "" }, expires: new Date(Date.now() + 60_000).toISOString() },
+      token: refreshed,
+    } as any);
+    return { token: refreshed as JWT, session: session as Session };
+  };
+
+  beforeEach(async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    server = await startServerBackend({ users: [USER] });
+    ({
+      authOptions: { callbacks },
+    } = await import("@/pages/api/auth/[...nextauth]"));
+    token = await signIn();
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await server.close();
+  });
+
+  it("stores the new tokens and leaves the session without an error", async () => {
+    const { token: refreshed, session } = await updateSession(token);
+
+    expect(refreshed.accessToken).toEqual(expect.any(String));
+    // The mock backend rotates refresh tokens
+    expect(refreshed.refreshToken).not.toBe(token.refreshToken);
+    expect(refreshed.error).toBeUndefined();
+    expect(session.error).toBeUndefined();
+    expect(session.user.id).toBe(token.sub);
+  });
+
+  it("flags the session when the backend refuses the refresh token", async () => {
+    server.backend.store.revokeUserSessions(token.sub!);
+
+    const { token: refreshed, session } = await updateSession(token);
+
+    expect(refreshed.error).toBe("RefreshAccessTokenError");
+    expect(session.error).toBe("RefreshAccessTokenError");
+  });
+});
+
+describe("NextAuth provider sign-in", () => {
+  const GOOGLE_USER = {
+    email: "budi@example.com",
+    full_name: "Budi",
+    identity: { provider: "google", providerAccountId: "google-budi" },
+    is_verified: true,
+  };
+
+  let server: Awaited<ReturnType<typeof startServerBackend>>;
+  let callbacks: typeof import("@/pages/api/auth/[...nextauth]").authOptions.callbacks;
+
+  // What NextAuth passes the signIn callback after the provider's redirect
+  const signInWith = (
+    provider: string,
+    providerAccountId: string,
+    profile: Record<string, unknown>
+  ) =>
+    callbacks!.signIn!({
+      user: { id: providerAccountId, email: profile.email as string, name: "Budi" },
+      account: { type: "oauth", provider, providerAccountId },
+      profile,
+    } as any);
+
+  const signInWithGoogle = () =>
+    signInWith("google", GOOGLE_USER.identity.providerAccountId, {
+      email: GOOGLE_USER.email,
+      email_verified: true,
+    });
+
+  beforeEach(async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    server = await startServerBackend(
+      { users: [GOOGLE_USER] },
+      { GITHUB_CLIENT_ID: "github-client", GITHUB_CLIENT_SECRET: "github-secret" }
+    );
+    ({
+      authOptions: { callbacks },
+    } = await import("@/pages/api/auth/[...nextauth]"));
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await server.close();
+  });
+
+  it("signs in accounts without 2FA", async () => {
+    await expect(signInWithGoogle()).resolves.toBe(true);
+  });
+
+  it.each([
+    ["google", { email_verified: false }],
+    ["oidc", {}],
+    ["azure-ad", { email_verified: "true" }],
+    ["azure-ad", { xms_edov: false }],
+  ])("refuses a %s email the provider doesn't vouch for (%o)", async (provider, claims) => {
+    const userCount = server.backend.store.users.size;
+
+    const result = await signInWith(provider, "account-1", { email: "citra@example.com", ...claims });
+
+    expect(result).toBe(false);
+    expect(server.backend.store.users.size).toBe(userCount);
+  });
+
+  it("accepts Azure AD emails whose domain the tenant verified", async () => {
+    await expect(
+      signInWith("azure-ad", "azure-citra", { email: "citra@example.com", xms_edov: true })
+    ).resolves.toBe(true);
+  });
+
+  it("takes GitHub's verified primary email, not the public profile one", async () => {
+    const { authOptions } = await import("@/pages/api/auth/[...nextauth]");
+    const github = authOptions.providers.find((provider) => provider.id === "github");
+    const { request } = github!.options!.userinfo as UserinfoEndpointHandler;
+    const userinfo = (emails: object[]) => {
+      vi.spyOn(globalThis, "fetch").mockResolvedValueOnce(Response.json(emails));
+      return request!({
+        client: { userinfo: async () => ({ id: 7, login: "budi", email: "public@example.com" }) },
+        tokens: { access_token: "github-token" },
+      } as any);
+    };
+
+    await expect(
+      userinfo([
+        { email: "old@example.com", primary: false, verified: true },
+        { email: GOOGLE_USER.email, primary: true, verified: true },
+      ])
+    ).resolves.toMatchObject({ email: GOOGLE_USER.email, email_verified: true });
+    await expect(
+      userinfo([{ email: GOOGLE_USER.email, primary: true, verified: false }])
+    ).resolves.toMatchObject({ email: undefined, email_verified: false });
+  });
+
+  it("asks accounts with 2FA for the code before handing out tokens", async () => {
+    const { generateTotpSecret, totpCode } = await import("@/mocks/auth-backend/totp");
+    const secret = generateTotpSecret();
+    server.backend.store.findByEmail(GOOGLE_USER.email)!.totp_secret = secret;
+
+    const result = await signInWithGoogle();
+
+    expect(result).toEqual(expect.stringMatching(/^\/auth\/two-factor\?/));
+    const params = new URL(String(result), "http://localhost").searchParams;
+    expect(params.get("provider")).toBe("google");
+
+    // The token is the challenge the 2FA page completes with a code
+    const { createServerApiClient } = await import("@/lib/server/api");
+    const response = await createServerApiClient().verifyTwoFactor({
+      two_factor_token: params.get("token")!,
+      code: totpCode(secret),
+    });
+    expect(response.user.email).toBe(GOOGLE_USER.email);
+  });
+});
+
+describe("NextAuth provider connect", () => {
+  const OTHER_USER = {
+    email: "budi@example.com",
+    full_name: "Budi",
+    identity: { provider: "google", providerAccountId: "google-budi" },
+    is_verified: true,
+  };
+
+  let server: Awaited<ReturnType<typeof startServerBackend>>;
+  let nextAuth: typeof import("@/pages/api/auth/[...nextauth]");
+  let api: ReturnType<typeof import("@/lib/server/api").createServerApiClient>;
+  let previous: JWT;
+
+  // The Google callback of "Hubungkan" on the settings page, with a Google
+  // account whose email isn't the signed-in user's
+  const connectGoogle = async (providerAccountId: string) => {
+    const { connect_token } = await api.createConnectToken();
+    const { callbacks } = nextAuth.withSignInContext({
+      rememberMe: undefined,
+      previous,
+      callbackUrl: undefined,
+      connect: { provider: "google", connectToken: connect_token },
+    });
+    return callbacks!.signIn!({
+      user: { id: providerAccountId, email: "ayu.pribadi@gmail.com", name: "Ayu" },
+      account: { type: "oauth", provider: "google", providerAccountId },
+      profile: { email: "ayu.pribadi@gmail.com", email_verified: true },
+    } as any);
+  };
+
+  beforeEach(async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    server = await startServerBackend({ users: [USER, OTHER_USER] });
+    nextAuth = await import("@/pages/api/auth/[...nextauth]");
+
+    const { createServerApiClient } = await import("@/lib/server/api");
+    const tokens = await createServerApiClient().login({ email: USER.email, password: USER.password });
+    const now = Date.now();
+    previous = {
+      sub: tokens.user.id,
+      signedInAt: now,
+      lastActivityAt: now,
+      authTime: now,
+      rememberMe: true,
+      accessToken: tokens.access_token,
+      refreshToken: tokens.refresh_token,
+      accessTokenExpires: now + tokens.expires_in * 1000,
+    };
+    api = createServerApiClient(previous.accessToken);
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await server.close();
+  });
+
+  it("links the provider account to the signed-in user and keeps the session", async () => {
+    const userCount = server.backend.store.users.size;
+
+    const result = await connectGoogle("google-ayu");
+
+    expect(result).toBe("/settings/connected-accounts?provider=google&connected=1");
+    expect(server.backend.store.users.size).toBe(userCount);
+    // The session it came from still works, and now lists the provider
+    const { identities } = await api.getConnectedAccounts();
+    expect(identities).toEqual([
+      expect.objectContaining({ provider: "google", email: "ayu.pribadi@gmail.com" }),
+    ]);
+  });
+
+  it("refuses a provider account that signs in to another user", async () => {
+    const result = await connectGoogle(OTHER_USER.identity.providerAccountId);
+
+    expect(result).toBe("/settings/connected-accounts?provider=google&error=IDENTITY_IN_USE");
+    await expect(api.getConnectedAccounts()).resolves.toMatchObject({ identities: [] });
+  });
+});
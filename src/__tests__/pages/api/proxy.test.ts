@@ -0,0 +1,137 @@
+import { Readable } from "node:stream";
+import type { NextApiRequest, NextApiResponse } from "next";
+import { encode, type JWT } from "next-auth/jwt";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { startServerBackend, TEST_NEXTAUTH_SECRET } from "@/__tests__/helpers/server";
+
+const USER = { email: "ayu@example.com", full_name: "Ayu", password: "Rahasia123!", is_verified: true };
+const MINUTE = 60_000;
+
+// Every call that ends sessions or changes how the account signs in
+const SENSITIVE_CALLS: [method: string, path: string][] = [
+  ["DELETE", "api/v1/auth/sessions/session-1"],
+  ["POST", "api/v1/auth/logout-all"],
+  ["POST", "api/v1/auth/password"],
+  ["POST", "api/v1/auth/identities"],
+  ["POST", "api/v1/auth/identities/connect-token"],
+  ["DELETE", "api/v1/auth/identities/google"],
+  ["POST", "api/v1/auth/2fa/setup"],
+  ["POST", "api/v1/auth/2fa/enable"],
+  ["POST", "api/v1/auth/2fa/disable"],
+  ["POST", "api/v1/auth/passkeys/register/options"],
+  ["POST", "api/v1/auth/passkeys/register/verify"],
+  ["DELETE", "api/v1/auth/passkeys/passkey-1"],
+];
+
+interface TestResponse {
+  statusCode: number;
+  body: unknown;
+}
+
+describe("API proxy step-up re-authentication", () => {
+  let server: Awaited<ReturnType<typeof startServerBackend>>;
+  let handler: typeof import("@/pages/api/proxy/[...path]").default;
+  let token: JWT;
+
+  // Session cookie whose last credential check was `authAge` ms ago
+  const sessionCookie = (authAge: number) =>
+    encode({
+      token: { ...token, authTime: Date.now() - authAge },
+      secret: TEST_NEXTAUTH_SECRET,
+    });
+
+  // Call the route the way Next.js would, with a parsed query and cookies
+  const proxy = async (method: string, path: string, authAge: number, body?: unknown) => {
+    const req = Readable.from(body === undefined ? [] : [Buffer.from(JSON.stringify(body))]);
+    Object.assign(req, {
+      method,
+      url: `/api/proxy/${path}`,
+      headers: { "content-type": "application/json" },
+      query: { path: path.split("/") },
+      cookies: { "next-auth.session-token": await sessionCookie(authAge) },
+      socket: { remoteAddress: "127.0.0.1" },
+    });
+    const res: TestResponse & Record<string, unknown> = {
+      statusCode: 200,
+      body: undefined,
+      status(code: number) {
+        res.statusCode = code;
+        return res;
+      },
+      setHeader: () => res,
+      json(value: unknown) {
+        res.body = value;
+        return res;
+      },
+      send(value: unknown) {
+        res.body = value;
+        return res;
+      },
+    };
+    await handler(req as unknown as NextApiRequest, res as unknown as NextApiResponse);
+    return res as TestResponse;
+  };
+
+  beforeEach(async () => {
+    server = await startServerBackend({ users: [USER] });
+    ({ default: handler } = await import("@/pages/api/proxy/[...path]"));
+
+    const { createServerApiClient } = await import("@/lib/server/api");
+    const tokens = await createServerApiClient().login({ email: USER.email, password: USER.password });
+    const now = Date.now();
+    token = {
+      sub: tokens.user.id,
+      signedInAt: now,
+      lastActivityAt: now,
+      rememberMe: true,
+      accessToken: tokens.access_token,
+      refreshToken: tokens.refresh_token,
+      accessTokenExpires: now + tokens.expires_in * 1000,
+    };
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it.each(SENSITIVE_CALLS)("asks to re-authenticate for %s %s", async (method, path) => {
+    const { statusCode, body } = await proxy(method, path, 11 * MINUTE, {});
+
+    expect(statusCode).toBe(403);
+    expect(body).toMatchObject({ error: { code: "REAUTH_REQUIRED" } });
+  });
+
+  it.each(SENSITIVE_CALLS)("matches %s %s whatever the method's case", async (method, path) => {
+    const { statusCode } = await proxy(method.toLowerCase(), path, 11 * MINUTE, {});
+
+    expect(statusCode).toBe(403);
+  });
+
+  it("forwards sensitive calls after a recent credential check", async () => {
+    const { statusCode, body } = await proxy("POST", "api/v1/auth/2fa/setup", MINUTE, {});
+
+    expect(statusCode).toBe(200);
+    expect(body).toMatchObject({ data: { secret: expect.any(String) } });
+  });
+
+  it.each(["api/v1/auth/oauth", "api/v1/auth/oauth/connect"])(
+    "keeps the server-only %s away from the browser",
+    async (path) => {
+      const { statusCode } = await proxy("POST", path, MINUTE, {
+        provider: "google",
+        provider_account_id: "google-ayu",
+        email: USER.email,
+        name: "Ayu",
+        avatar: "",
+      });
+
+      expect(statusCode).toBe(404);
+    }
+  );
+
+  it("forwards other calls whatever the age of the check", async () => {
+    const { statusCode } = await proxy("GET", "api/v1/auth/me", 60 * MINUTE);
+
+    expect(statusCode).toBe(200);
+  });
+});
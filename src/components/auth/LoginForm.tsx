@@ -1,6 +1,13 @@
-import React, { useState } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import { useRouter } from "next/router";
 import { signIn } from "next-auth/react";
+import {
+  AuthenticationResponseJSON,
+  browserSupportsWebAuthn,
+  browserSupportsWebAuthnAutofill,
+  startAuthentication,
+  WebAuthnAbortService,
+} from "@simplewebauthn/browser";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -12,15 +19,83 @@ import {
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
+import { Switch } from "@/components/ui/switch";
 import { toast } from "@/hooks/use-toast";
-import { Eye, EyeOff } from "lucide-react";
+import { Eye, EyeOff, KeyRound, Mail } from "lucide-react";
 import { useApi } from "@/components/contex/ApiProvider";
+import { OAuthButtons } from "@/components/auth/OAuthButtons";
+import { TwoFactorChallengeForm } from "@/components/auth/TwoFactorChallengeForm";
+import { useOAuthProviders } from "@/hooks/use-oauth-providers";
+import { isPasskeyCancelled } from "@/lib/passkey";
+import { rememberMagicLinkRequest } from "@/lib/magic-link";
+import { getErrorProviderLabel } from "@/lib/auth-providers";
+import {
+  ApiError,
+  ApiErrorCode,
+  isAbortError,
+  isApiError,
+  isConflictError,
+  isForbiddenError,
+  isNetworkError,
+  isNotFoundError,
+  isRateLimitedError,
+  isTimeoutError,
+  isUnauthorizedError,
+} from "@/lib/api-errors";
 
 interface LoginFormData {
   email: string;
   password: string;
 }
 
+// Toast content for a failed api.login call
+const getLoginErrorToast = (error: ApiError) => {
+  if (isConflictError(error) && error.code === ApiErrorCode.AccountExistsWithOAuth) {
+    const provider = getErrorProviderLabel(error.details);
+    return {
+      title: "⚠️ Tipe Akun Tidak Cocok",
+      description: `Email ini sudah terdaftar dengan ${provider}. Silakan masuk dengan ${provider}, lalu tambahkan password di Connected Accounts.`,
+    };
+  }
+  if (isUnauthorizedError(error)) {
+    return {
+      title: "🔒 Login Gagal",
+      description: "Email atau password salah. Silakan coba lagi.",
+    };
+  }
+  if (isNotFoundError(error)) {
+    return {
+      title: "👤 Email Tidak Ditemukan",
+      description:
+        "Email tidak terdaftar. Silakan periksa kembali email Anda atau daftar akun baru.",
+    };
+  }
+  if (isForbiddenError(error)) {
+    return {
+      title: "🚫 Akun Dinonaktifkan",
+      description: "Akun Anda telah dinonaktifkan. Silakan hubungi admin.",
+    };
+  }
+  if (isRateLimitedError(error)) {
+    return {
+      title: "⏳ Terlalu Banyak Percobaan",
+      description: error.retryAfter
+        ? `Silakan coba lagi dalam ${error.retryAfter} detik.`
+        : "Silakan tunggu beberapa saat sebelum mencoba lagi.",
+    };
+  }
+  if (isNetworkError(error)) {
+    return {
+      title: "📡 Tidak Dapat Terhubung",
+      description: "Periksa koneksi internet Anda dan coba lagi.",
+    };
+  }
+  return {
+    title: "❌ Login Gagal",
+    description: error.message || "Terjadi kesalahan saat login. Silakan coba lagi.",
+  };
+};
+
 export const LoginForm = () => {
   const router = useRouter();
   const { api } = useApi();
@@ -32,8 +107,27 @@ export const LoginForm = () => {
     password: "",
   });
   const [loading, setLoading] = useState(false);
-  const [googleLoading, setGoogleLoading] = useState(false);
+  // Set while the browser is on its way to an external provider
+  const [oauthPending, setOAuthPending] = useState(false);
+  const [passkeyLoading, setPasskeyLoading] = useState(false);
+  // Known after mount; the button stays hidden on browsers without WebAuthn
+  const [passkeySupported, setPasskeySupported] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
+  // Checked by default, keeping the long session logins always had.
+  // Unchecked: the session ends when the browser closes
+  const [rememberMe, setRememberMe] = useState(true);
+  // Set when the account has 2FA: the password is checked, a code is next
+  const [twoFactorToken, setTwoFactorToken] = useState<string | null>(null);
+  // Address a sign-in link was sent to
+  const [magicLinkSentTo, setMagicLinkSentTo] = useState<string | null>(null);
+  const [magicLinkLoading, setMagicLinkLoading] = useState(false);
+  const loginRequest = useRef<AbortController | null>(null);
+  const oauthProviders = useOAuthProviders();
+
+  // Cancel a pending login request when leaving the page
+  useEffect(() => {
+    return () => loginRequest.current?.abort();
+  }, []);
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
@@ -71,6 +165,123 @@ export const LoginForm = () => {
     return true;
   };
 
+  // Hand a verified sign-in over to NextAuth: a session ticket from the
+  // password flow, or a passkey assertion the provider checks with the backend
+  const completeSignIn = async (
+    provider: "credentials" | "passkey",
+    credentials: Record<string, string | undefined>
+  ) => {
+    const result = await signIn(provider, {
+      redirect: false,
+      ...credentials,
+      rememberMe: String(rememberMe),
+    });
+
+    if (result?.ok) {
+      toast({
+        title: "✅ Login Berhasil!",
+        description: "Selamat datang kembali di template zacode!",
+      });
+      router.push(callbackUrl);
+    } else if (provider === "passkey") {
+      toast({
+        title: "🔑 Passkey Tidak Dikenali",
+        description: "Passkey ini tidak terdaftar atau login kedaluwarsa. Silakan coba lagi.",
+        variant: "destructive",
+      });
+    } else {
+      toast({
+        title: "❌ Login Gagal",
+        description: "Terjadi kesalahan saat login. Silakan coba lagi.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const completePasskeySignIn = async (
+    challengeToken: string,
+    credential: AuthenticationResponseJSON
+  ) => {
+    setPasskeyLoading(true);
+    try {
+      await completeSignIn("passkey", {
+        challengeToken,
+        credential: JSON.stringify(credential),
+      });
+    } finally {
+      setPasskeyLoading(false);
+    }
+  };
+
+  // The autofill ceremony outlives renders; it finishes with the latest state
+  const latestCompletePasskeySignIn = useRef(completePasskeySignIn);
+  useEffect(() => {
+    latestCompletePasskeySignIn.current = completePasskeySignIn;
+  });
+
+  // Offer passkeys among the email field's autofill suggestions (conditional
+  // mediation). The ceremony waits in the background until one is picked
+  useEffect(() => {
+    if (!browserSupportsWebAuthn()) {
+      return;
+    }
+    let active = true;
+
+    const startAutofill = async () => {
+      const supportsAutofill = await browserSupportsWebAuthnAutofill();
+      if (!active) {
+        return;
+      }
+      setPasskeySupported(true);
+      if (!supportsAutofill) {
+        return;
+      }
+
+      const { challenge_token, options } = await api.getPasskeyLoginOptions();
+      if (!active) {
+        return;
+      }
+      const credential = await startAuthentication({
+        optionsJSON: options,
+        useBrowserAutofill: true,
+      });
+      await latestCompletePasskeySignIn.current(challenge_token, credential);
+    };
+
+    startAutofill().catch((error) => {
+      // Replaced by the passkey button, or the page was left
+      if (!isPasskeyCancelled(error)) {
+        console.error("Passkey autofill failed:", error);
+      }
+    });
+
+    return () => {
+      active = false;
+      WebAuthnAbortService.cancelCeremony();
+    };
+  }, [api]);
+
+  // Explicit passkey prompt; replaces a pending autofill ceremony
+  const handlePasskeySignIn = async () => {
+    setPasskeyLoading(true);
+    try {
+      const { challenge_token, options } = await api.getPasskeyLoginOptions();
+      const credential = await startAuthentication({ optionsJSON: options });
+      await completePasskeySignIn(challenge_token, credential);
+    } catch (error) {
+      if (!isPasskeyCancelled(error)) {
+        console.error("Passkey sign-in error:", error);
+        toast({
+          title: "❌ Login Passkey Gagal",
+          description: "Tidak dapat masuk dengan passkey. Silakan coba lagi.",
+          variant: "destructive",
+        });
+      }
+    } finally {
+      setPasskeyLoading(false);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -81,10 +292,17 @@ export const LoginForm = () => {
     try {
       // Check if email needs verification by calling API directly first
       try {
-        const authResponse = await api.login({
-          email: formData.email,
-          password: formData.password,
-        });
+        loginRequest.current?.abort();
+        const controller = new AbortController();
+        loginRequest.current = controller;
+
+        const authResponse = await api.login(
+          {
+            email: formData.email,
+            password: formData.password,
+          },
+          { signal: controller.signal }
+        );
 
         // Check if verification is required
         if (authResponse.requires_verification) {
@@ -102,56 +320,46 @@ export const LoginForm = () => {
         }
 
         // If verified, proceed with NextAuth login
-        const result = await signIn("credentials", {
-          redirect: false,
-          accessToken: authResponse.access_token,
-          refreshToken: authResponse.refresh_token,
+        await completeSignIn("credentials", {
+          sessionTicket: authResponse.session_ticket,
         });
+      } catch (apiError: unknown) {
+        // Request cancelled because the form was left or resubmitted
+        if (isAbortError(apiError)) {
+          return;
+        }
 
-        if (result?.ok) {
-          toast({
-            title: "✅ Login Berhasil!",
-            description: "Selamat datang kembali di template zacode!",
-          });
-          router.push(callbackUrl);
-        } else {
+        if (isTimeoutError(apiError)) {
           toast({
-            title: "❌ Login Gagal",
-            description: "Terjadi kesalahan saat login. Silakan coba lagi.",
+            title: "⏱️ Server Tidak Merespons",
+            description: "Permintaan login terlalu lama. Periksa koneksi Anda dan coba lagi.",
             variant: "destructive",
           });
+          return;
         }
-      } catch (apiError: unknown) {
-        // Handle API error response
-        const error = apiError as Error & {
-          message?: string;
-          user_email?: string;
-          response?: {
-            status: number;
-            data?: {
-              error?: {
-                email?: string;
-                requires_verification?: boolean;
-                message?: string;
-              };
-              message?: string;
-            };
-          };
-        };
-
-        // Check if it's email not verified error from backend (401 with requires_verification)
+
+        // 2FA enabled: backend answers 401 with a challenge token for the code step
         if (
-          error.response?.status === 401 &&
-          error.response?.data?.error?.requires_verification
+          isUnauthorizedError(apiError) &&
+          apiError.details.requires_two_factor
         ) {
-          const email = error.response.data.error.email || formData.email;
-          const errorMessage = error.response.data.error.message || 
-            error.response.data.message || 
-            "OTP telah dikirim ke email Anda. Silakan verifikasi email untuk melanjutkan.";
+          setTwoFactorToken(String(apiError.details.two_factor_token));
+          return;
+        }
+
+        // Email not verified yet: backend answers 401 with requires_verification
+        if (
+          isUnauthorizedError(apiError) &&
+          apiError.details.requires_verification
+        ) {
+          const email =
+            (apiError.details.email as string | undefined) || formData.email;
 
           toast({
             title: "📧 Email Belum Diverifikasi",
-            description: errorMessage,
+            description:
+              apiError.message ||
+              "OTP telah dikirim ke email Anda. Silakan verifikasi email untuk melanjutkan.",
           });
 
           sessionStorage.setItem("registration_email", email);
@@ -159,81 +367,14 @@ export const LoginForm = () => {
           return;
         }
 
-        // If it's EMAIL_NOT_VERIFIED error from NextAuth handler
-        if (error.message === "EMAIL_NOT_VERIFIED") {
-          toast({
-            title: "📧 Email Belum Diverifikasi",
-            description: "OTP telah dikirim ke email Anda. Silakan verifikasi email untuk melanjutkan.",
-          });
-
-          sessionStorage.setItem("registration_email", error.user_email || formData.email);
-          router.push(`/auth/verify-otp?email=${encodeURIComponent(error.user_email || formData.email)}&callbackUrl=${encodeURIComponent(callbackUrl)}`);
-          return;
+        if (!isApiError(apiError)) {
+          throw apiError;
         }
 
-        // Try NextAuth login for other cases
-        const result = await signIn("credentials", {
-          redirect: false,
-          email: formData.email,
-          password: formData.password,
+        toast({
+          ...getLoginErrorToast(apiError),
+          variant: "destructive",
         });
-
-        if (result?.ok) {
-          toast({
-            title: "✅ Login Berhasil!",
-            description: "Selamat datang kembali di template zacode!",
-          });
-          router.push(callbackUrl);
-        } else {
-          let errorMessage = "Email atau password salah. Silakan coba lagi.";
-          let errorTitle = "❌ Login Gagal";
-
-          // Handle specific error messages
-          if (result?.error) {
-            const errorStr = typeof result.error === 'string' ? result.error : JSON.stringify(result.error);
-            
-            // Check for specific error messages from our backend
-            if (
-              errorStr.includes("registered with Google") ||
-              errorStr.includes("Please use Google sign in") ||
-              errorStr.includes("Account type mismatch")
-            ) {
-              errorMessage =
-                "Email ini sudah terdaftar dengan Google. Silakan gunakan tombol 'Masuk dengan Google' untuk login.";
-              errorTitle = "⚠️ Tipe Akun Tidak Cocok";
-            } else if (
-              errorStr.includes("Password yang Anda masukkan salah") ||
-              errorStr.includes("Invalid password") ||
-              errorStr.includes("invalid email or password")
-            ) {
-              errorMessage =
-                "Email atau password salah. Silakan coba lagi.";
-              errorTitle = "🔒 Login Gagal";
-            } else if (errorStr.includes("Email tidak terdaftar") ||
-                       errorStr.includes("User not found") ||
-                       errorStr.includes("user not found")) {
-              errorMessage =
-                "Email tidak terdaftar. Silakan periksa kembali email Anda atau daftar akun baru.";
-              errorTitle = "👤 Email Tidak Ditemukan";
-            } else if (errorStr.includes("Invalid credentials") ||
-                       errorStr === "CredentialsSignin") {
-              errorMessage = "Email atau password salah. Silakan coba lagi.";
-              errorTitle = "❌ Login Gagal";
-            } else if (errorStr.includes("account is banned")) {
-              errorMessage = "Akun Anda telah dinonaktifkan. Silakan hubungi admin.";
-              errorTitle = "🚫 Akun Dinonaktifkan";
-            } else if (typeof result.error === 'string' && result.error.trim() !== '') {
-              // Use the error message directly if it's a valid string
-              errorMessage = result.error;
-            }
-          }
-
-          toast({
-            title: errorTitle,
-            description: errorMessage,
-            variant: "destructive",
-          });
-        }
       }
     } catch (error) {
       console.error("Login error:", error);
@@ -247,70 +388,104 @@ export const LoginForm = () => {
     }
   };
 
-  const handleGoogleSignIn = async () => {
-    setGoogleLoading(true);
-    try {
-      const result = await signIn("google", {
-        callbackUrl: callbackUrl,
-        redirect: false,
+  // Passwordless alternative: a one-time sign-in link by email
+  const handleMagicLinkRequest = async () => {
+    const email = formData.email.trim();
+    if (!email.includes("@")) {
+      toast({
+        title: "Error",
+        description: "Masukkan email yang valid untuk menerima link masuk.",
+        variant: "destructive",
       });
+      return;
+    }
 
-      if (result?.error) {
-        let errorMessage = "Terjadi kesalahan saat autentikasi Google. Silakan coba lagi.";
-        let errorTitle = "❌ Google Sign-In Gagal";
-
-        const errorStr = typeof result.error === 'string' ? result.error : JSON.stringify(result.error);
-
-        // Check for specific error messages
-        if (errorStr.includes("already registered with password") || 
-            errorStr === "AccessDenied") {
-          errorMessage = "Email ini sudah terdaftar dengan password. Silakan login dengan email dan password.";
-          errorTitle = "⚠️ Email Sudah Terdaftar";
-        } else if (errorStr.includes("different Google account")) {
-          errorMessage = "Email ini sudah terdaftar dengan akun Google yang berbeda.";
-          errorTitle = "⚠️ Email Sudah Terdaftar";
-        } else if (errorStr === "Configuration") {
-          errorMessage = "Terjadi masalah pada konfigurasi server. Silakan hubungi admin.";
-        } else if (errorStr === "Verification") {
-          errorMessage = "Token verifikasi sudah kedaluwarsa atau sudah digunakan.";
-        } else if (typeof result.error === 'string' && result.error.trim() !== '') {
-          errorMessage = result.error;
-        }
-
-        toast({
-          title: errorTitle,
-          description: errorMessage,
-          variant: "destructive",
-        });
-      } else if (result?.ok) {
-        // Success - redirect to callback URL
-        router.push(callbackUrl);
-      }
+    setMagicLinkLoading(true);
+    try {
+      await api.requestMagicLink({ email });
+      // Lets the landing page sign in right away when opened in this browser
+      rememberMagicLinkRequest({ email, callbackUrl, rememberMe });
+      setMagicLinkSentTo(email);
     } catch (error) {
-      console.error("Google sign-in error:", error);
-      
-      let errorMessage = "Terjadi kesalahan saat autentikasi Google. Silakan coba lagi.";
-      
-      // Handle error object
-      if (error instanceof Error && error.message) {
-        errorMessage = error.message;
-      } else if (typeof error === 'object' && error !== null) {
-        const errorObj = error as { message?: string };
-        if (errorObj.message && typeof errorObj.message === 'string') {
-          errorMessage = errorObj.message;
-        }
-      }
-      
       toast({
-        title: "❌ Google Sign-In Gagal",
-        description: errorMessage,
+        ...(isRateLimitedError(error)
+          ? {
+              title: "⏳ Terlalu Banyak Permintaan",
+              description: error.retryAfter
+                ? `Silakan coba lagi dalam ${error.retryAfter} detik.`
+                : "Silakan tunggu beberapa saat sebelum meminta link baru.",
+            }
+          : {
+              title: "❌ Gagal Mengirim Link",
+              description: "Terjadi kesalahan. Silakan coba lagi.",
+            }),
         variant: "destructive",
       });
     } finally {
-      setGoogleLoading(false);
+      setMagicLinkLoading(false);
     }
   };
 
+  if (twoFactorToken) {
+    return (
+      <Card className="w-full max-w-md mx-auto dark:bg-gray-800 dark:border-gray-700">
+        <CardHeader className="text-center">
+          <CardTitle className="text-3xl font-bold text-gray-900 dark:text-gray-50">
+            Verifikasi Dua Langkah
+          </CardTitle>
+          <CardDescription className="text-gray-600 dark:text-gray-400">
+            Masukkan kode dari aplikasi autentikator Anda
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <TwoFactorChallengeForm
+            challengeToken={twoFactorToken}
+            onVerified={(response) =>
+              completeSignIn("credentials", { sessionTicket: response.session_ticket })
+            }
+            onCancel={() => {
+              setTwoFactorToken(null);
+              setFormData((prev) => ({ ...prev, password: "" }));
+            }}
+          />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (magicLinkSentTo) {
+    return (
+      <Card className="w-full max-w-md mx-auto dark:bg-gray-800 dark:border-gray-700">
+        <CardHeader className="text-center">
+          <div className="mx-auto w-12 h-12 bg-blue-100 dark:bg-blue-900/30 rounded-full flex items-center justify-center mb-4">
+            <Mail className="w-6 h-6 text-blue-600 dark:text-blue-400" />
+          </div>
+          <CardTitle className="text-3xl font-bold text-gray-900 dark:text-gray-50">
+            Cek Email Anda
+          </CardTitle>
+          <CardDescription className="text-gray-600 dark:text-gray-400">
+            Link masuk telah dikirim ke{" "}
+            <span className="font-semibold text-blue-600 dark:text-blue-400 break-all">
+              {magicLinkSentTo}
+            </span>
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-col gap-3">
+          <p className="text-sm text-center text-gray-600 dark:text-gray-400">
+            Link hanya bisa digunakan sekali dan segera kedaluwarsa. Buka di
+            browser ini untuk langsung masuk.
+          </p>
+          <Button onClick={handleMagicLinkRequest} disabled={magicLinkLoading}>
+            {magicLinkLoading ? "Mengirim..." : "Kirim Ulang"}
+          </Button>
+          <Button variant="ghost" onClick={() => setMagicLinkSentTo(null)}>
+            Kembali
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
   return (
     <Card className="w-full max-w-md mx-auto dark:bg-gray-800 dark:border-gray-700">
       <CardHeader className="text-center">
@@ -331,6 +506,8 @@ export const LoginForm = () => {
                 name="email"
                 type="email"
                 placeholder="Masukkan email"
+                // "webauthn" lets the browser suggest passkeys here
+                autoComplete="username webauthn"
                 value={formData.email}
                 onChange={handleInputChange}
                 required
@@ -365,8 +542,19 @@ export const LoginForm = () => {
               </div>
             </div>
 
-            {/* Forgot Password Link */}
-            <div className="text-right">
+            {/* Remember Me + Forgot Password Link */}
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="rememberMe"
+                  checked={rememberMe}
+                  onCheckedChange={setRememberMe}
+                  disabled={loading}
+                />
+                <Label htmlFor="rememberMe" className="text-sm font-normal">
+                  Ingat saya
+                </Label>
+              </div>
               <Button
                 type="button"
                 variant="link"
@@ -381,54 +569,58 @@ export const LoginForm = () => {
               <Button type="submit" className="w-full" disabled={loading}>
                 {loading ? "Masuk..." : "Masuk"}
               </Button>
+              <Button
+                type="button"
+                variant="link"
+                className="h-auto p-0 text-sm"
+                onClick={handleMagicLinkRequest}
+                disabled={loading || magicLinkLoading}
+              >
+                {magicLinkLoading ? "Mengirim link..." : "Kirim link masuk ke email saya"}
+              </Button>
             </div>
           </div>
         </form>
 
         {/* Divider */}
-        <div className="relative my-6">
-          <div className="absolute inset-0 flex items-center">
-            <Separator className="w-full" />
-          </div>
-          <div className="relative flex justify-center text-xs uppercase">
-            <span className="bg-white dark:bg-gray-800 px-2 text-muted-foreground">
-              Atau lanjutkan dengan
-            </span>
+        {(passkeySupported || (oauthProviders && oauthProviders.length > 0)) && (
+          <div className="relative my-6">
+            <div className="absolute inset-0 flex items-center">
+              <Separator className="w-full" />
+            </div>
+            <div className="relative flex justify-center text-xs uppercase">
+              <span className="bg-white dark:bg-gray-800 px-2 text-muted-foreground">
+                Atau lanjutkan dengan
+              </span>
+            </div>
           </div>
-        </div>
-
-        {/* Google Sign In Button */}
-        <Button
-          type="button"
-          variant="outline"
-          className="w-full bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 border-gray-300 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700"
-          onClick={handleGoogleSignIn}
-          disabled={googleLoading || loading}
-        >
-          <svg
-            className="mr-2 h-4 w-4"
-            viewBox="0 0 24 24"
-            xmlns="http://www.w3.org/2000/svg"
+        )}
+
+        {/* External Provider Buttons */}
+        {oauthProviders && (
+          <OAuthButtons
+            providers={oauthProviders}
+            action="Masuk"
+            callbackUrl={callbackUrl}
+            rememberMe={rememberMe}
+            disabled={loading}
+            onPendingChange={setOAuthPending}
+          />
+        )}
+
+        {/* Passkey Sign In Button */}
+        {passkeySupported && (
+          <Button
+            type="button"
+            variant="outline"
+            className="w-full mt-3 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 border-gray-300 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700"
+            onClick={handlePasskeySignIn}
+            disabled={passkeyLoading || oauthPending || loading}
           >
-            <path
-              d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92c-.26 1.37-1.04 2.53-2.21 3.31v2.77h3.57c2.08-1.92 3.28-4.74 3.28-8.09z"
-              fill="#4285F4"
-            />
-            <path
-              d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.77c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84C3.99 20.53 7.7 23 12 23z"
-              fill="#34A853"
-            />
-            <path
-              d="M5.84 14.09c-.22-.66-.35-1.36-.35-2.09s.13-1.43.35-2.09V7.07H2.18C1.43 8.55 1 10.22 1 12s.43 3.45 1.18 4.93l2.85-2.22.81-.62z"
-              fill="#FBBC05"
-            />
-            <path
-              d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1 7.7 1 3.99 3.47 2.18 7.07l3.66 2.84c.87-2.6 3.3-4.53 6.16-4.53z"
-              fill="#EA4335"
-            />
-          </svg>
-          {googleLoading ? "Memproses..." : "Masuk dengan Google"}
-        </Button>
+            <KeyRound className="mr-2 h-4 w-4" />
+            {passkeyLoading ? "Memproses..." : "Masuk dengan Passkey"}
+          </Button>
+        )}
 
         {/* Register Link */}
         <div className="text-center mt-6">
@@ -0,0 +1,178 @@
+import React, { useState } from "react";
+import { signIn, useSession } from "next-auth/react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useApi } from "@/components/contex/ApiProvider";
+import { TwoFactorChallengeForm } from "@/components/auth/TwoFactorChallengeForm";
+import { isRateLimitedError, isUnauthorizedError } from "@/lib/api-errors";
+import { getProviderLabel, PROVIDER_LABELS } from "@/lib/auth-providers";
+import type { AuthResponse } from "@/types/auth";
+
+interface ReauthDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Credentials confirmed; retry the sensitive action
+  onSuccess: () => void;
+  // Where provider re-consent returns to (defaults to the current page)
+  callbackUrl?: string;
+}
+
+// Step-up re-authentication: asks for the password again, or for provider
+// re-consent when the user signed in with Google, GitHub, ...
+export const ReauthDialog: React.FC<ReauthDialogProps> = ({
+  isOpen,
+  onClose,
+  onSuccess,
+  callbackUrl,
+}) => {
+  const { data: session, update } = useSession();
+  const { api } = useApi();
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState("");
+  const [loading, setLoading] = useState(false);
+  // Accounts with 2FA confirm a code after the password
+  const [twoFactorToken, setTwoFactorToken] = useState<string | null>(null);
+  // The session's authTime before this check, on the server's clock
+  const [previousAuthTime, setPreviousAuthTime] = useState(0);
+
+  // External provider the user signed in with, if any
+  const oauthProvider =
+    session?.loginType && session.loginType in PROVIDER_LABELS ? session.loginType : null;
+
+  const handleClose = () => {
+    setPassword("");
+    setError("");
+    setTwoFactorToken(null);
+    onClose();
+  };
+
+  // Swap the fresh sign-in into the current session
+  const confirmTicket = async (response: AuthResponse, previous: number) => {
+    const updated = response.session_ticket
+      ? await update({ reauthTicket: response.session_ticket })
+      : null;
+
+    // The jwt callback only moves authTime when the ticket checked out.
+    // Both values come from the server, so this device's clock can't skew it
+    if (!updated?.authTime || updated.authTime <= previous) {
+      setTwoFactorToken(null);
+      setError("Verifikasi gagal. Silakan coba lagi.");
+      return;
+    }
+
+    setPassword("");
+    setTwoFactorToken(null);
+    onSuccess();
+  };
+
+  const handlePasswordSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const email = session?.user.email;
+    if (!email || !password) {
+      return;
+    }
+
+    setLoading(true);
+    setError("");
+    const previous = session?.authTime ?? 0;
+    setPreviousAuthTime(previous);
+
+    try {
+      const response = await api.login({ email, password });
+      await confirmTicket(response, previous);
+    } catch (err) {
+      if (isUnauthorizedError(err) && err.details.requires_two_factor) {
+        setTwoFactorToken(String(err.details.two_factor_token));
+      } else if (isUnauthorizedError(err)) {
+        setError("Password salah.");
+      } else if (isRateLimitedError(err)) {
+        setError("Terlalu banyak percobaan. Silakan tunggu sebentar.");
+      } else {
+        setError("Terjadi kesalahan. Silakan coba lagi.");
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // The provider asks for the account again (prompt=login, where
+  // supported) and the new sign-in sets a fresh authTime
+  const handleOAuthReauth = async (provider: string) => {
+    setLoading(true);
+    await signIn(
+      provider,
+      { callbackUrl: callbackUrl ?? window.location.href },
+      { prompt: "login" }
+    );
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>🔐 Konfirmasi Identitas</DialogTitle>
+          <DialogDescription>
+            {oauthProvider
+              ? `Tindakan ini memerlukan verifikasi ulang. Masuk kembali dengan akun ${getProviderLabel(oauthProvider)} Anda untuk melanjutkan.`
+              : "Tindakan ini memerlukan verifikasi ulang. Masukkan password Anda untuk melanjutkan."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {twoFactorToken ? (
+          <TwoFactorChallengeForm
+            challengeToken={twoFactorToken}
+            onVerified={(response) => confirmTicket(response, previousAuthTime)}
+            onCancel={() => {
+              setTwoFactorToken(null);
+              setPassword("");
+            }}
+          />
+        ) : oauthProvider ? (
+          <DialogFooter>
+            <Button variant="outline" onClick={handleClose} disabled={loading}>
+              Batal
+            </Button>
+            <Button onClick={() => handleOAuthReauth(oauthProvider)} disabled={loading}>
+              {loading ? "Mengalihkan..." : `Lanjutkan dengan ${getProviderLabel(oauthProvider)}`}
+            </Button>
+          </DialogFooter>
+        ) : (
+          <form onSubmit={handlePasswordSubmit} className="grid gap-4">
+            <div className="grid gap-3">
+              <Label htmlFor="reauth-password">Password</Label>
+              <Input
+                id="reauth-password"
+                type="password"
+                placeholder="Masukkan password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoComplete="current-password"
+                autoFocus
+                required
+                disabled={loading}
+              />
+              {error && <p className="text-sm text-red-600">{error}</p>}
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={handleClose} disabled={loading}>
+                Batal
+              </Button>
+              <Button type="submit" disabled={loading || !password}>
+                {loading ? "Memverifikasi..." : "Konfirmasi"}
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
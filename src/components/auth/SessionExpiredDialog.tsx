@@ -0,0 +1,43 @@
+import React from "react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+interface SessionExpiredDialogProps {
+  isOpen: boolean;
+  onSignIn: () => void;
+  isLoading?: boolean;
+}
+
+// Blocking dialog shown when the session can no longer be refreshed; the
+// only way out is signing in again
+export const SessionExpiredDialog: React.FC<SessionExpiredDialogProps> = ({
+  isOpen,
+  onSignIn,
+  isLoading = false,
+}) => {
+  return (
+    <AlertDialog open={isOpen}>
+      <AlertDialogContent onEscapeKeyDown={(e) => e.preventDefault()}>
+        <AlertDialogHeader>
+          <AlertDialogTitle>⏰ Sesi Berakhir</AlertDialogTitle>
+          <AlertDialogDescription>
+            Sesi login Anda telah berakhir. Silakan masuk kembali untuk
+            melanjutkan; Anda akan diarahkan kembali ke halaman ini.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogAction onClick={onSignIn} disabled={isLoading}>
+            {isLoading ? "Processing..." : "Masuk Lagi"}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
@@ -0,0 +1,64 @@
+import React from "react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import type { SessionTimeoutWarning } from "@/hooks/use-session-timeout";
+
+interface SessionTimeoutDialogProps {
+  warning: SessionTimeoutWarning | null;
+  // Idle timeout: stay signed in
+  onStay: () => void;
+  // Maximum lifetime: acknowledge, it can't be extended
+  onDismiss: () => void;
+  onSignOut: () => void;
+  isLoading?: boolean;
+}
+
+function formatCountdown(seconds: number) {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+// Countdown shown before the session policy signs the user out
+export const SessionTimeoutDialog: React.FC<SessionTimeoutDialogProps> = ({
+  warning,
+  onStay,
+  onDismiss,
+  onSignOut,
+  isLoading = false,
+}) => {
+  const isIdle = warning?.reason === "idle";
+  const countdown = formatCountdown(warning?.secondsLeft ?? 0);
+
+  return (
+    <AlertDialog open={warning !== null}>
+      <AlertDialogContent onEscapeKeyDown={(e) => e.preventDefault()}>
+        <AlertDialogHeader>
+          <AlertDialogTitle>
+            {isIdle ? "⏳ Masih di Sana?" : "⏳ Sesi Akan Berakhir"}
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            {isIdle
+              ? `Anda tidak aktif beberapa saat. Demi keamanan, Anda akan keluar otomatis dalam ${countdown}.`
+              : `Sesi login Anda mencapai batas waktu maksimum dan berakhir dalam ${countdown}. Simpan pekerjaan Anda, lalu masuk kembali.`}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={onSignOut} disabled={isLoading}>
+            Keluar Sekarang
+          </AlertDialogCancel>
+          <AlertDialogAction onClick={isIdle ? onStay : onDismiss} disabled={isLoading}>
+            {isLoading ? "Processing..." : isIdle ? "Tetap Masuk" : "Mengerti"}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
@@ -0,0 +1,129 @@
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "@/hooks/use-toast";
+import { useApi } from "@/components/contex/ApiProvider";
+import { ApiErrorCode, isRateLimitedError, isUnauthorizedError } from "@/lib/api-errors";
+import type { AuthResponse } from "@/types/auth";
+
+interface TwoFactorChallengeFormProps {
+  // `two_factor_token` from the TWO_FACTOR_REQUIRED login error
+  challengeToken: string;
+  // Code accepted; the response carries the session ticket
+  onVerified: (response: AuthResponse) => void | Promise<void>;
+  // Back to the password step (also when the challenge expired)
+  onCancel: () => void;
+}
+
+// Second login step for accounts with 2FA: an authenticator app code, or
+// one of the backup codes when the phone isn't at hand
+export const TwoFactorChallengeForm: React.FC<TwoFactorChallengeFormProps> = ({
+  challengeToken,
+  onVerified,
+  onCancel,
+}) => {
+  const { api } = useApi();
+  const [code, setCode] = useState("");
+  const [useBackupCode, setUseBackupCode] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) {
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const response = await api.verifyTwoFactor({
+        two_factor_token: challengeToken,
+        code: code.trim(),
+      });
+      await onVerified(response);
+    } catch (error) {
+      if (isUnauthorizedError(error) && error.code === ApiErrorCode.InvalidTwoFactorCode) {
+        setCode("");
+        toast({
+          title: "❌ Kode Salah",
+          description: useBackupCode
+            ? "Kode cadangan tidak valid atau sudah digunakan."
+            : "Kode autentikasi tidak valid. Silakan coba lagi.",
+          variant: "destructive",
+        });
+      } else if (isUnauthorizedError(error)) {
+        toast({
+          title: "⏰ Waktu Habis",
+          description: "Verifikasi dua langkah kedaluwarsa. Silakan login kembali.",
+          variant: "destructive",
+        });
+        onCancel();
+      } else if (isRateLimitedError(error)) {
+        toast({
+          title: "⏳ Terlalu Banyak Percobaan",
+          description: "Silakan tunggu beberapa saat sebelum mencoba lagi.",
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: "❌ Verifikasi Gagal",
+          description: "Terjadi kesalahan. Silakan coba lagi.",
+          variant: "destructive",
+        });
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit}>
+      <div className="flex flex-col gap-6">
+        <div className="grid gap-3">
+          <Label htmlFor="two-factor-code">
+            {useBackupCode ? "Kode Cadangan" : "Kode Autentikasi"}
+          </Label>
+          <Input
+            id="two-factor-code"
+            name="code"
+            inputMode={useBackupCode ? "text" : "numeric"}
+            autoComplete="one-time-code"
+            placeholder={useBackupCode ? "xxxx-xxxx" : "6 digit kode"}
+            maxLength={useBackupCode ? 9 : 6}
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            autoFocus
+            required
+            disabled={loading}
+          />
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            {useBackupCode
+              ? "Masukkan salah satu kode cadangan Anda. Setiap kode hanya bisa dipakai sekali."
+              : "Buka aplikasi autentikator Anda dan masukkan kode yang ditampilkan."}
+          </p>
+        </div>
+
+        <div className="flex flex-col gap-3">
+          <Button type="submit" className="w-full" disabled={loading || !code.trim()}>
+            {loading ? "Memverifikasi..." : "Verifikasi"}
+          </Button>
+          <Button
+            type="button"
+            variant="link"
+            className="h-auto p-0 text-sm"
+            onClick={() => {
+              setUseBackupCode(!useBackupCode);
+              setCode("");
+            }}
+            disabled={loading}
+          >
+            {useBackupCode ? "Gunakan kode autentikator" : "Gunakan kode cadangan"}
+          </Button>
+          <Button type="button" variant="ghost" onClick={onCancel} disabled={loading}>
+            Kembali
+          </Button>
+        </div>
+      </div>
+    </form>
+  );
+};
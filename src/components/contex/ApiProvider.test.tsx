@@ -0,0 +1,184 @@
+// @vitest-environment jsdom
+import React from 'react';
+import { act, cleanup, fireEvent, render, screen } from '@testing-library/react';
+import type { Session } from 'next-auth';
+import { useSession } from 'next-auth/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ApiProvider } from '@/components/contex/ApiProvider';
+import { api, API_PROXY_PATH } from '@/lib/api';
+import { logout } from '@/lib/logout';
+import type { SessionSyncEvent } from '@/lib/session-sync';
+import { createMockAuthBackend } from '@/mocks/auth-backend/server';
+
+const router = vi.hoisted(() => ({
+  asPath: '/account/security?tab=passkeys',
+  push: vi.fn(async () => true),
+}));
+
+vi.mock('next/router', () => ({ useRouter: () => router }));
+vi.mock('next-auth/react', () => ({ useSession: vi.fn() }));
+vi.mock('@/lib/logout', () => ({ logout: vi.fn(async () => {}) }));
+
+const USER = { email: 'ayu@example.com', full_name: 'Ayu', password: 'Rahasia123!', is_verified: true };
+
+describe('ApiProvider session expiry', () => {
+  let backend: ReturnType<typeof createMockAuthBackend>;
+  let refreshToken: string;
+  let session: Session;
+  let otherTab: BroadcastChannel;
+  let otherTabEvents: SessionSyncEvent[];
+
+  // Stands in for NextAuth's session update: the jwt callback exchanges the
+  // refresh token and flags the session when the backend refuses it
+  const update = vi.fn(async () => {
+    try {
+      const tokens = await api.refreshToken(refreshToken);
+      api.setAccessToken(tokens.access_token!);
+      refreshToken = tokens.refresh_token ?? refreshToken;
+      return session;
+    } catch {
+      return { ...session, error: 'RefreshAccessTokenError' as const };
+    }
+  });
+
+  const renderProvider = () => {
+    vi.mocked(useSession).mockReturnValue({ data: session, status: 'authenticated', update });
+    return render(
+      <ApiProvider>
+        <p>Halaman</p>
+      </ApiProvider>
+    );
+  };
+
+  // An authenticated request whose access token has gone bad
+  const requestWithExpiredToken = () =>
+    act(async () => {
+      api.setAccessToken('expired-access-token');
+      await api.getCurrentUser().catch(() => {});
+    });
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    backend = createMockAuthBackend({ users: [USER] });
+    const backendUrl = await backend.listen(0);
+    // Talk to the mock backend where the browser would go through the proxy
+    api.interceptors.request.use('test-backend', (context) => ({
+      ...context,
+      url: context.url.replace(API_PROXY_PATH, backendUrl),
+    }));
+
+    const signedIn = await api.login({ email: USER.email, password: USER.password });
+    refreshToken = signedIn.refresh_token!;
+    session = {
+      user: { id: signedIn.user.id, email: USER.email, name: USER.full_name },
+      authTime: Date.now(),
+      expires: new Date(Date.now() + 60 * 60_000).toISOString(),
+    };
+
+    otherTabEvents = [];
+    otherTab = new BroadcastChannel('auth-session-sync');
+    otherTab.addEventListener('message', (message) => otherTabEvents.push(message.data));
+  });
+
+  afterEach(async () => {
+    cleanup();
+    otherTab.close();
+    api.interceptors.request.eject('test-backend');
+    api.setAccessToken(null);
+    vi.clearAllMocks();
+    vi.restoreAllMocks();
+    await backend.close();
+  });
+
+  it('renews the session after a 401 and tells other tabs', async () => {
+    renderProvider();
+
+    await requestWithExpiredToken();
+
+    expect(update).toHaveBeenCalledTimes(1);
+    expect(update).toHaveBeenCalledWith({ refresh: true });
+    await vi.waitFor(() => expect(otherTabEvents).toContainEqual({ type: 'token-refreshed' }));
+    expect(screen.queryByText('⏰ Sesi Berakhir')).toBeNull();
+  });
+
+  it('asks to sign in again once the refresh fails', async () => {
+    renderProvider();
+    // Signed out everywhere: the refresh token is no longer accepted
+    backend.store.revokeUserSessions(session.user.id);
+
+    await requestWithExpiredToken();
+
+    expect(update).toHaveBeenCalledTimes(1);
+    expect(await screen.findByText('⏰ Sesi Berakhir')).toBeTruthy();
+    expect(otherTabEvents).not.toContainEqual({ type: 'token-refreshed' });
+  });
+
+  it('signs out and returns to the current page after signing in again', async () => {
+    renderProvider();
+    backend.store.revokeUserSessions(session.user.id);
+    await requestWithExpiredToken();
+
+    await act(async () => {
+      fireEvent.click(await screen.findByRole('button', { name: 'Masuk Lagi' }));
+    });
+
+    expect(logout).toHaveBeenCalledTimes(1);
+    expect(router.push).toHaveBeenCalledWith(
+      '/auth/login?callbackUrl=%2Faccount%2Fsecurity%3Ftab%3Dpasskeys'
+    );
+    expect(vi.mocked(logout).mock.invocationCallOrder[0]).toBeLessThan(
+      router.push.mock.invocationCallOrder[0]
+    );
+  });
+
+  it('does not reopen the dialog once the same user has signed in again', async () => {
+    const { rerender } = renderProvider();
+    backend.store.revokeUserSessions(session.user.id);
+    await requestWithExpiredToken();
+    expect(await screen.findByText('⏰ Sesi Berakhir')).toBeTruthy();
+
+    // Signed out and back in (here or in another tab) without a reload
+
+    const setSession = (data: Session | null) => {
+      vi.mocked(useSession).mockReturnValue(
+        data
+          ? { data, status: 'authenticated', update }
+          : { data: null, status: 'unauthenticated', update }
+      );
+      rerender(
+        <ApiProvider>
+          <p>Halaman</p>
+        </ApiProvider>
+      );
+    };
+    setSession(null);
+    setSession({ ...session, authTime: session.authTime! + 60_000 });
+
+    await act(async () => {});
+    expect(screen.queryByText('⏰ Sesi Berakhir')).toBeNull();
+  });
+
+  it('keeps the dialog open while the expired sign-in is still in use', async () => {
+    const { rerender } = renderProvider();
+    backend.store.revokeUserSessions(session.user.id);
+    await requestWithExpiredToken();
+    expect(await screen.findByText('⏰ Sesi Berakhir')).toBeTruthy();
+
+    // The same session read again, e.g. on window focus
+    vi.mocked(useSession).mockReturnValue({ data: { ...session }, status: 'authenticated', update });
+    rerender(
+      <ApiProvider>
+        <p>Halaman</p>
+      </ApiProvider>
+    );
+
+    expect(screen.getByText('⏰ Sesi Berakhir')).toBeTruthy();
+  });
+
+  it('opens the dialog for a session the server could not refresh', async () => {
+    session = { ...session, error: 'RefreshAccessTokenError' };
+    renderProvider();
+
+    expect(await screen.findByText('⏰ Sesi Berakhir')).toBeTruthy();
+  });
+});
@@ -1,13 +1,28 @@
-import React, { createContext, useContext, useEffect } from 'react';
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { useRouter } from 'next/router';
 import { useSession } from 'next-auth/react';
-import { api } from '@/lib/api';
+import { SessionExpiredDialog } from '@/components/auth/SessionExpiredDialog';
+import { SessionTimeoutDialog } from '@/components/auth/SessionTimeoutDialog';
+import { useSessionTimeout, type SessionTimeoutReason } from '@/hooks/use-session-timeout';
+import { toast } from '@/hooks/use-toast';
+import { api, TokenManager } from '@/lib/api';
+import { logout } from '@/lib/logout';
+import { queryCache } from '@/lib/query-cache';
+import {
+  broadcastSessionEvent,
+  reloadSession,
+  subscribeSessionEvents,
+} from '@/lib/session-sync';
 
 interface ApiContextType {
   api: typeof api;
   isAuthenticated: boolean;
-  accessToken: string | null;
+  // Re-read the user's profile into the session after editing it
+  refreshProfile: () => Promise<void>;
 }
 
+const CURRENT_USER_KEY = ['/api/v1/auth/me'] as const;
+
 const ApiContext = createContext<ApiContextType | undefined>(undefined);
 
 export const useApi = () => {
@@ -23,28 +38,198 @@ interface ApiProviderProps {
 }
 
 export const ApiProvider: React.FC<ApiProviderProps> = ({ children }) => {
-  const { data: session, status } = useSession();
+  const { data: session, status, update } = useSession();
   const isAuthenticated = status === 'authenticated' && !!session;
-  const accessToken = session?.accessToken || null;
+  const userId = isAuthenticated ? session.user.id : null;
+  // Identifies one sign-in: signing in again, even as the same user, starts
+  // a new one
+  const sessionKey = isAuthenticated ? `${userId}:${session.authTime ?? ''}` : null;
+  const router = useRouter();
+  // Sign-in the API client reported as unrecoverable
+  const [expiredSessionKey, setExpiredSessionKey] = useState<string | null>(null);
+  const currentSessionKey = useRef(sessionKey);
+  useEffect(() => {
+    currentSessionKey.current = sessionKey;
+  }, [sessionKey]);
+  const [signingIn, setSigningIn] = useState(false);
+
+  // Tokens live in the session cookie now; drop copies older versions kept
+  useEffect(() => {
+    TokenManager.clearTokens();
+  }, []);
+
+  // Cached queries belong to the previous user: drop them on sign-out,
+  // refetch them when someone signs in. Other tabs follow the change
+  const previousUserId = useRef<string | null>(null);
+  useEffect(() => {
+    if (status === 'loading' || previousUserId.current === userId) {
+      return;
+    }
+    const wasSignedIn = previousUserId.current !== null;
+    previousUserId.current = userId;
 
-  // Update API client with current access token
+    if (wasSignedIn) {
+      queryCache.clear();
+    }
+    if (userId) {
+      queryCache.invalidate();
+      broadcastSessionEvent({ type: 'signed-in', userId });
+    } else if (wasSignedIn) {
+      broadcastSessionEvent({ type: 'signed-out' });
+    }
+  }, [status, userId]);
+
+  // Session changes made in other tabs
   useEffect(() => {
-    if (accessToken) {
-      api.setAccessToken(accessToken);
-    } else {
-      api.setAccessToken(null);
+    return subscribeSessionEvents((event) => {
+      switch (event.type) {
+        case 'signed-in':
+          if (event.userId !== previousUserId.current) {
+            reloadSession();
+          }
+          break;
+        case 'signed-out':
+          if (previousUserId.current) {
+            reloadSession();
+          }
+          break;
+        case 'token-refreshed':
+          // The cookie already holds the new tokens; don't refresh again
+          api.markSessionRefreshed();
+          reloadSession();
+          break;
+        case 'profile-updated':
+          queryCache.invalidate(CURRENT_USER_KEY);
+          reloadSession();
+          break;
+      }
+    });
+  }, []);
+
+  // Refresh through NextAuth so the new tokens are persisted in the session
+  // cookie the proxy reads. Anonymous requests have nothing to refresh
+  useEffect(() => {
+    if (!isAuthenticated) {
+      return;
     }
-  }, [accessToken]);
+    api.setRefreshHandler(async () => {
+      const updated = await update({ refresh: true });
+      if (!updated?.user || updated.error) {
+        return false;
+      }
+      setExpiredSessionKey(null);
+      broadcastSessionEvent({ type: 'token-refreshed' });
+      return true;
+    });
+    return () => api.setRefreshHandler(null);
+  }, [isAuthenticated, update]);
+
+  // A new access token (refreshed here or in another tab) may see data the
+  // old one couldn't, or no longer see some; revalidate what is cached
+  const refreshAt = session?.refreshAt;
+  const previousRefreshAt = useRef<{ userId: string | null; refreshAt?: number }>({
+    userId: null,
+  });
+  useEffect(() => {
+    const previous = previousRefreshAt.current;
+    previousRefreshAt.current = { userId, refreshAt };
+    if (userId && previous.userId === userId && previous.refreshAt !== refreshAt) {
+      queryCache.invalidate();
+    }
+  }, [userId, refreshAt]);
+
+  // Renew shortly before the access token expires so requests don't go out
+  // with a dead token
+  useEffect(() => {
+    if (!isAuthenticated || !refreshAt) {
+      return;
+    }
+    const timer = setTimeout(async () => {
+      const updated = await update({ refresh: true });
+      if (updated?.user && !updated.error) {
+        setExpiredSessionKey(null);
+        api.markSessionRefreshed();
+        broadcastSessionEvent({ type: 'token-refreshed' });
+      }
+    }, Math.max(refreshAt - Date.now(), 0));
+    return () => clearTimeout(timer);
+  }, [isAuthenticated, refreshAt, update]);
+
+  // Refresh failed: the session can't be recovered, ask the user to sign in
+  useEffect(() => {
+    return api.onSessionExpired(() => {
+      setExpiredSessionKey(currentSessionKey.current);
+    });
+  }, []);
+
+  const sessionExpired =
+    isAuthenticated &&
+    (session.error === 'RefreshAccessTokenError' || expiredSessionKey === sessionKey);
+
+  // Sign out and come back to the current page after signing in again
+  const handleSignInAgain = useCallback(async () => {
+    setSigningIn(true);
+    const loginUrl = `/auth/login?callbackUrl=${encodeURIComponent(router.asPath)}`;
+    await logout();
+    setExpiredSessionKey(null);
+    await router.push(loginUrl);
+    setSigningIn(false);
+  }, [router]);
+
+  // Idle timeout or maximum lifetime reached: sign out everywhere, the
+  // server would refuse the session cookie from now on anyway
+  const handleSessionTimeout = useCallback(
+    async (reason: SessionTimeoutReason) => {
+      const loginUrl = `/auth/login?callbackUrl=${encodeURIComponent(router.asPath)}`;
+      await logout();
+      toast({
+        title: '⏰ Sesi Berakhir',
+        description:
+          reason === 'idle'
+            ? 'Anda keluar otomatis karena tidak aktif.'
+            : 'Sesi login mencapai batas waktu maksimum. Silakan masuk kembali.',
+      });
+      await router.push(loginUrl);
+    },
+    [router]
+  );
+
+  const sessionTimeout = useSessionTimeout(handleSessionTimeout);
+
+  const handleTimeoutSignOut = useCallback(async () => {
+    setSigningIn(true);
+    await logout();
+    await router.push('/');
+    setSigningIn(false);
+  }, [router]);
+
+  const refreshProfile = useCallback(async () => {
+    await update({ profile: true });
+    queryCache.invalidate(CURRENT_USER_KEY);
+    broadcastSessionEvent({ type: 'profile-updated' });
+  }, [update]);
 
   const value: ApiContextType = {
     api,
     isAuthenticated,
-    accessToken,
+    refreshProfile,
   };
 
   return (
     <ApiContext.Provider value={value}>
       {children}
+      <SessionExpiredDialog
+        isOpen={sessionExpired}
+        onSignIn={handleSignInAgain}
+        isLoading={signingIn}
+      />
+      <SessionTimeoutDialog
+        warning={sessionExpired ? null : sessionTimeout.warning}
+        onStay={sessionTimeout.extend}
+        onDismiss={sessionTimeout.dismiss}
+        onSignOut={handleTimeoutSignOut}
+        isLoading={sessionTimeout.isExtending || signingIn}
+      />
     </ApiContext.Provider>
   );
 };
@@ -1,7 +1,7 @@
 "use client";
 
-import React from "react";
-import { useSession, signIn, signOut } from "next-auth/react";
+import React, { useEffect, useState } from "react";
+import { useSession, signIn } from "next-auth/react";
 import { useRouter } from "next/router";
 import {
   DropdownMenu,
@@ -13,21 +13,79 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
-import { LogOut, User, Settings } from "lucide-react";
+import { ConfirmDialog } from "@/components/ui/confirm-dialog";
+import { ReauthDialog } from "@/components/auth/ReauthDialog";
+import { Laptop, Link2, LogOut, MonitorSmartphone, ShieldCheck, User, Settings } from "lucide-react";
+import { useReauth } from "@/hooks/use-reauth";
+import { toast } from "@/hooks/use-toast";
+import { isReauthRequiredError } from "@/lib/api-errors";
+import { logout, type LogoutResult } from "@/lib/logout";
+import { subscribeSessionEvents } from "@/lib/session-sync";
 
 export default function Navbar() {
   const { data: session, status } = useSession();
   const router = useRouter();
   const isLoading = status === "loading";
+  const [showLogoutAll, setShowLogoutAll] = useState(false);
+  const [loggingOutAll, setLoggingOutAll] = useState(false);
+  const { withReauth, dialogProps: reauthDialogProps } = useReauth();
 
   const handleSignIn = () => {
     signIn(undefined, { callbackUrl: router.asPath });
   };
 
   const handleSignOut = async () => {
-    await signOut({ callbackUrl: "/" });
+    await logout();
+    router.push("/");
   };
 
+  const handleSignOutAllDevices = async () => {
+    setLoggingOutAll(true);
+    let result: LogoutResult;
+    try {
+      result = await withReauth(() => logout({ allDevices: true }));
+    } catch (error) {
+      // Re-auth cancelled: still signed in everywhere
+      if (isReauthRequiredError(error)) {
+        return;
+      }
+      throw error;
+    } finally {
+      setLoggingOutAll(false);
+      setShowLogoutAll(false);
+    }
+    const { allDevicesRevoked } = result;
+
+    if (!allDevicesRevoked) {
+      toast({
+        title: "⚠️ Sebagian Gagal",
+        description:
+          "Anda sudah keluar dari perangkat ini, tetapi sesi di perangkat lain belum dapat diakhiri. Silakan coba lagi nanti.",
+        variant: "destructive",
+      });
+    }
+    router.push("/");
+  };
+
+  // Sign-in/out in another tab: ApiProvider reloads the session, let the
+  // user know why the menu changed
+  useEffect(() => {
+    return subscribeSessionEvents((event) => {
+      if (event.type === "signed-out" && status === "authenticated") {
+        toast({
+          title: "👋 Anda Telah Keluar",
+          description: "Sesi Anda diakhiri dari tab lain.",
+        });
+      }
+      if (event.type === "signed-in" && status === "unauthenticated") {
+        toast({
+          title: "✅ Anda Sudah Masuk",
+          description: "Login dilakukan dari tab lain.",
+        });
+      }
+    });
+  }, [status]);
+
   const getInitials = (name?: string | null, email?: string | null) => {
     if (name) {
       return name
@@ -117,6 +175,27 @@ export default function Navbar() {
                   <Settings className="mr-2 h-4 w-4" />
                   Settings
                 </DropdownMenuItem>
+                <DropdownMenuItem
+                  onClick={() => router.push("/settings/sessions")}
+                  className="cursor-pointer"
+                >
+                  <Laptop className="mr-2 h-4 w-4" />
+                  Sessions
+                </DropdownMenuItem>
+                <DropdownMenuItem
+                  onClick={() => router.push("/settings/security")}
+                  className="cursor-pointer"
+                >
+                  <ShieldCheck className="mr-2 h-4 w-4" />
+                  Security
+                </DropdownMenuItem>
+                <DropdownMenuItem
+                  onClick={() => router.push("/settings/connected-accounts")}
+                  className="cursor-pointer"
+                >
+                  <Link2 className="mr-2 h-4 w-4" />
+                  Connected Accounts
+                </DropdownMenuItem>
                 <DropdownMenuSeparator />
                 <DropdownMenuItem
                   onClick={handleSignOut}
@@ -126,6 +205,14 @@ export default function Navbar() {
                   <LogOut className="mr-2 h-4 w-4" />
                   Logout
                 </DropdownMenuItem>
+                <DropdownMenuItem
+                  onClick={() => setShowLogoutAll(true)}
+                  className="cursor-pointer text-destructive focus:text-destructive"
+                  variant="destructive"
+                >
+                  <MonitorSmartphone className="mr-2 h-4 w-4" />
+                  Logout All Devices
+                </DropdownMenuItem>
               </DropdownMenuContent>
             </DropdownMenu>
           ) : (
@@ -135,6 +222,19 @@ export default function Navbar() {
           )}
         </div>
       </div>
+
+      <ConfirmDialog
+        isOpen={showLogoutAll}
+        onClose={() => setShowLogoutAll(false)}
+        onConfirm={handleSignOutAllDevices}
+        title="Keluar dari Semua Perangkat?"
+        description="Semua sesi login Anda, termasuk di perangkat ini, akan diakhiri. Anda perlu login kembali di setiap perangkat."
+        confirmText="Keluar Semua"
+        cancelText="Batal"
+        variant="destructive"
+        isLoading={loggingOutAll}
+      />
+      <ReauthDialog {...reauthDialogProps} />
     </nav>
   );
 }
@@ -0,0 +1,180 @@
+import { useCallback, useEffect, useMemo, useRef, useState, useSyncExternalStore } from "react";
+import { useApi } from "@/components/contex/ApiProvider";
+import type { ApiClient } from "@/lib/api";
+import { hashQueryKey, queryCache, type QueryKey, type QueryStatus } from "@/lib/query-cache";
+
+export type { QueryKey } from "@/lib/query-cache";
+
+// Data younger than this is served from the cache without refetching
+const DEFAULT_STALE_TIME = 30_000;
+
+export type QueryFetcher<T> = (api: ApiClient, context: { signal: AbortSignal }) => Promise<T>;
+
+export interface UseApiQueryOptions {
+  // Set to false to hold the request, e.g. until the user is signed in
+  enabled?: boolean;
+  staleTime?: number;
+}
+
+export interface UseApiQueryResult<T> {
+  data: T | undefined;
+  error: unknown;
+  status: QueryStatus;
+  // No data yet and the first request is in flight
+  isLoading: boolean;
+  // Any request in flight, including background revalidation
+  isFetching: boolean;
+  refetch: () => Promise<T>;
+  // Replace the cached data, e.g. with a mutation's response
+  setData: (data: T) => void;
+}
+
+/**
+ * Fetch and cache data for `key`. Components using the same key share one
+ * cache entry and one in-flight request; stale data is shown while it
+ * revalidates.
+ *
+ *   const { data } = useApiQuery(["/api/v1/auth/me"], (api, { signal }) =>
+ *     api.getCurrentUser({ signal })
+ *   );
+ */
+export function useApiQuery<T>(
+  key: QueryKey,
+  fetcher: QueryFetcher<T>,
+  options: UseApiQueryOptions = {}
+): UseApiQueryResult<T> {
+  const { enabled = true, staleTime = DEFAULT_STALE_TIME } = options;
+  const { api } = useApi();
+
+  // Callers usually pass inline keys; keep a stable one per hash
+  const hash = hashQueryKey(key);
+  const stableKey = useMemo(() => JSON.parse(hash) as QueryKey, [hash]);
+
+  const fetcherRef = useRef(fetcher);
+  useEffect(() => {
+    fetcherRef.current = fetcher;
+  });
+
+  const subscribe = useCallback(
+    (listener: () => void) => queryCache.subscribe(stableKey, listener),
+    [stableKey]
+  );
+  const getSnapshot = useCallback(() => queryCache.getState<T>(stableKey), [stableKey]);
+  const state = useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+
+  const refetch = useCallback(
+    () => queryCache.fetch(stableKey, (signal) => fetcherRef.current(api, { signal })),
+    [stableKey, api]
+  );
+
+  // Fetch on mount, when the key changes and after invalidation
+  useEffect(() => {
+    if (!enabled || !queryCache.isStale(stableKey, staleTime)) {
+      return;
+    }
+    // Failures are exposed through `error`
+    refetch().catch(() => {});
+  }, [enabled, stableKey, staleTime, state.isInvalidated, refetch]);
+
+  const setData = useCallback((data: T) => queryCache.setData(stableKey, data), [stableKey]);
+
+  return {
+    data: state.data,
+    error: state.error,
+    status: state.status,
+    isLoading: state.status === "loading",
+    isFetching: state.isFetching,
+    refetch,
+    setData,
+  };
+}
+
+export interface UseApiMutationOptions<TData, TVariables> {
+  // Queries to mark stale once the mutation succeeds
+  invalidates?: QueryKey[] | ((data: TData, variables: TVariables) => QueryKey[]);
+  onSuccess?: (data: TData, variables: TVariables) => void;
+  onError?: (error: unknown, variables: TVariables) => void;
+}
+
+export interface UseApiMutationResult<TData, TVariables> {
+  data: TData | undefined;
+  error: unknown;
+  status: QueryStatus;
+  isLoading: boolean;
+  // Resolves with the result or rejects with the error
+  mutateAsync: (variables: TVariables) => Promise<TData>;
+  // Fire and forget; the error is only exposed through `error`/`onError`
+  mutate: (variables: TVariables) => void;
+  reset: () => void;
+}
+
+interface MutationState<TData> {
+  data?: TData;
+  error?: unknown;
+  status: QueryStatus;
+}
+
+/**
+ * Run a write through the API client and invalidate the queries it affects.
+ *
+ *   const { mutate, isLoading } = useApiMutation(
+ *     (api, data: ResetPasswordRequest) => api.requestResetPassword(data),
+ *     { invalidates: [["/api/v1/auth/me"]] }
+ *   );
+ */
+export function useApiMutation<TData, TVariables = void>(
+  mutationFn: (api: ApiClient, variables: TVariables) => Promise<TData>,
+  options: UseApiMutationOptions<TData, TVariables> = {}
+): UseApiMutationResult<TData, TVariables> {
+  const { api } = useApi();
+  const [state, setState] = useState<MutationState<TData>>({ status: "idle" });
+
+  const latest = useRef({ mutationFn, options });
+  useEffect(() => {
+    latest.current = { mutationFn, options };
+  });
+
+  const mutateAsync = useCallback(
+    async (variables: TVariables) => {
+      const { mutationFn, options } = latest.current;
+      setState({ status: "loading" });
+      try {
+        const data = await mutationFn(api, variables);
+        setState({ data, status: "success" });
+
+        const keys =
+          typeof options.invalidates === "function"
+            ? options.invalidates(data, variables)
+            : options.invalidates ?? [];
+        keys.forEach((key) => queryCache.invalidate(key));
+
+        options.onSuccess?.(data, variables);
+        return data;
+      } catch (error) {
+        setState({ error, status: "error" });
+        options.onError?.(error, variables);
+        throw error;
+      }
+    },
+    [api]
+  );
+
+  const mutate = useCallback(
+    (variables: TVariables) => {
+      mutateAsync(variables).catch(() => {});
+    },
+    [mutateAsync]
+  );
+
+  const reset = useCallback(() => setState({ status: "idle" }), []);
+
+  return {
+    data: state.data,
+    error: state.error,
+    status: state.status,
+    isLoading: state.status === "loading",
+    mutateAsync,
+    mutate,
+    reset,
+  };
+}
@@ -0,0 +1,33 @@
+import { useEffect, useState } from "react";
+import { ClientSafeProvider, getProviders } from "next-auth/react";
+
+/**
+ * External login providers enabled on the server (Google, GitHub, ...),
+ * from NextAuth's provider list. Null until it has loaded; empty when none
+ * are configured or the list couldn't be fetched.
+ */
+export function useOAuthProviders(): ClientSafeProvider[] | null {
+  const [providers, setProviders] = useState<ClientSafeProvider[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getProviders()
+      .then((result) => {
+        if (!cancelled) {
+          setProviders(
+            Object.values(result ?? {}).filter((provider) => provider.type === "oauth")
+          );
+        }
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setProviders([]);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return providers;
+}
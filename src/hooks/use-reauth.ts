@@ -0,0 +1,64 @@
+import { useCallback, useRef, useState } from "react";
+import { isReauthRequiredError } from "@/lib/api-errors";
+
+interface PendingReauth {
+  confirm: () => void;
+  cancel: () => void;
+}
+
+export interface UseReauthResult {
+  // Run `action`; when the server wants a recent credential check (403
+  // REAUTH_REQUIRED), open the re-auth dialog and run it again once the
+  // user confirms. Cancelling rejects with the REAUTH_REQUIRED error
+  withReauth: <T>(action: () => Promise<T>) => Promise<T>;
+  // Props for <ReauthDialog />
+  dialogProps: { isOpen: boolean; onClose: () => void; onSuccess: () => void };
+}
+
+/**
+ * Step-up re-authentication for sensitive actions (see recent-auth):
+ *
+ *   const { withReauth, dialogProps } = useReauth();
+ *   await withReauth(() => revoke.mutateAsync(sessionId));
+ *   ...
+ *   <ReauthDialog {...dialogProps} />
+ */
+export function useReauth(): UseReauthResult {
+  const pending = useRef<PendingReauth | null>(null);
+  const [isOpen, setIsOpen] = useState(false);
+
+  const settle = useCallback((confirmed: boolean) => {
+    const current = pending.current;
+    pending.current = null;
+    setIsOpen(false);
+    if (confirmed) {
+      current?.confirm();
+    } else {
+      current?.cancel();
+    }
+  }, []);
+
+  const withReauth = useCallback(
+    <T>(action: () => Promise<T>): Promise<T> =>
+      action().catch((error: unknown) => {
+        if (!isReauthRequiredError(error)) {
+          throw error;
+        }
+        // One dialog at a time; an older request gives up
+        pending.current?.cancel();
+        return new Promise<T>((resolve, reject) => {
+          pending.current = {
+            confirm: () => action().then(resolve, reject),
+            cancel: () => reject(error),
+          };
+          setIsOpen(true);
+        });
+      }),
+    []
+  );
+
+  const onClose = useCallback(() => settle(false), [settle]);
+  const onSuccess = useCallback(() => settle(true), [settle]);
+
+  return { withReauth, dialogProps: { isOpen, onClose, onSuccess } };
+}
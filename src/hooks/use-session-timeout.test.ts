@@ -0,0 +1,68 @@
+// @vitest-environment jsdom
+import { act, cleanup, renderHook } from "@testing-library/react";
+import type { Session } from "next-auth";
+import { useSession } from "next-auth/react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { useSessionTimeout } from "@/hooks/use-session-timeout";
+
+vi.mock("next-auth/react", () => ({ useSession: vi.fn() }));
+
+const MINUTE = 60_000;
+
+describe("useSessionTimeout", () => {
+  const onExpire = vi.fn();
+
+  // A session whose idle timeout ends `idleLeft` ms from now on a server
+  // clock that runs `skew` ms ahead of this device
+  const mockSession = (idleLeft: number, skew: number) => {
+    const serverNow = Date.now() + skew;
+    const session: Session = {
+      user: { id: "user-1" },
+      expires: new Date(serverNow + 60 * MINUTE).toISOString(),
+      policy: {
+        idleExpiresAt: serverNow + idleLeft,
+        maxAgeExpiresAt: serverNow + 60 * MINUTE,
+        idleWarningSeconds: 60,
+        serverNow,
+      },
+    };
+    vi.mocked(useSession).mockReturnValue({ data: session, status: "authenticated", update: vi.fn() });
+  };
+
+  // One second at a time, so each countdown tick can schedule the next
+  const advance = async (ms: number) => {
+    for (let elapsed = 0; elapsed < ms; elapsed += 1000) {
+      await act(async () => {
+        vi.advanceTimersByTime(1000);
+      });
+    }
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    cleanup();
+    vi.useRealTimers();
+    vi.clearAllMocks();
+  });
+
+  it.each([
+    ["ahead of", 30 * MINUTE],
+    ["behind", -30 * MINUTE],
+  ])("counts down from the server's clock when it is %s this one", async (_label, skew) => {
+    mockSession(5 * MINUTE, skew);
+    const { result } = renderHook(() => useSessionTimeout(onExpire));
+
+    expect(result.current.warning).toBeNull();
+    expect(onExpire).not.toHaveBeenCalled();
+
+    await advance(4 * MINUTE + 30_000);
+    expect(result.current.warning).toEqual({ reason: "idle", secondsLeft: 30 });
+    expect(onExpire).not.toHaveBeenCalled();
+
+    await advance(30_000);
+    expect(onExpire).toHaveBeenCalledWith("idle");
+  });
+});
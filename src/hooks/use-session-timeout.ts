@@ -0,0 +1,155 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useSession } from "next-auth/react";
+
+export type SessionTimeoutReason = "idle" | "max-age";
+
+// Events that count as the user being present
+const ACTIVITY_EVENTS = ["pointerdown", "pointermove", "keydown", "scroll", "touchstart"] as const;
+// Report activity to the server at most this often (ms)
+const ACTIVITY_REPORT_INTERVAL = 60_000;
+// setTimeout fires immediately for delays above this
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+export interface SessionTimeoutWarning {
+  reason: SessionTimeoutReason;
+  secondsLeft: number;
+}
+
+export interface UseSessionTimeoutResult {
+  // Set while the session is about to end
+  warning: SessionTimeoutWarning | null;
+  // Count the user as active again, resetting the idle timeout
+  extend: () => Promise<void>;
+  // Hide the warning until the session actually ends
+  dismiss: () => void;
+  isExtending: boolean;
+}
+
+/**
+ * Track user activity against the session policy from the jwt callback.
+ * Activity is reported to the server (which owns the idle timeout) at most
+ * once a minute; `onExpire` runs when the deadline passes without it.
+ */
+export function useSessionTimeout(
+  onExpire: (reason: SessionTimeoutReason) => void
+): UseSessionTimeoutResult {
+  const { data: session, status, update } = useSession();
+  const policy = status === "authenticated" ? session?.policy : undefined;
+  const idleExpiresAt = policy?.idleExpiresAt ?? null;
+  const maxAgeExpiresAt = policy?.maxAgeExpiresAt ?? null;
+  const serverNow = policy?.serverNow ?? null;
+  const warningMs = (policy?.idleWarningSeconds ?? 0) * 1000;
+
+  // How far the server's clock is ahead of this one, measured whenever
+  // deadlines arrive, so a skewed device clock doesn't warn or sign out
+  // early. Until the first measurement there are no deadlines to act on
+  const [clockOffset, setClockOffset] = useState<number | null>(null);
+  useEffect(() => {
+    if (serverNow !== null) {
+      setClockOffset(serverNow - Date.now());
+    }
+  }, [serverNow]);
+
+  const [now, setNow] = useState(() => Date.now());
+  const [isExtending, setIsExtending] = useState(false);
+  const [dismissedAt, setDismissedAt] = useState<number | null>(null);
+  const lastReportAt = useRef(Date.now());
+
+  // Whichever limit comes first, on the server's clock
+  const deadline =
+    maxAgeExpiresAt === null
+      ? null
+      : idleExpiresAt !== null && idleExpiresAt < maxAgeExpiresAt
+        ? { at: idleExpiresAt, reason: "idle" as const }
+        : { at: maxAgeExpiresAt, reason: "max-age" as const };
+  // The same moment on this device's clock
+  const deadlineAt = deadline && clockOffset !== null ? deadline.at - clockOffset : null;
+  const warningAt = deadlineAt === null ? null : deadlineAt - warningMs;
+  const isWarning = warningAt !== null && now >= warningAt;
+  const isExpired = deadlineAt !== null && now >= deadlineAt;
+
+  // Sleep until the warning, then tick every second for the countdown
+  useEffect(() => {
+    if (warningAt === null || isExpired) {
+      return;
+    }
+    const delay = now < warningAt ? warningAt - now : 1000;
+    const timer = setTimeout(() => setNow(Date.now()), Math.min(delay, MAX_TIMER_DELAY));
+    return () => clearTimeout(timer);
+  }, [warningAt, isExpired, now]);
+
+  // Timers are paused while the device sleeps; catch up when it wakes
+  useEffect(() => {
+    const onVisibilityChange = () => {
+      if (document.visibilityState === "visible") {
+        setNow(Date.now());
+      }
+    };
+    document.addEventListener("visibilitychange", onVisibilityChange);
+    return () => document.removeEventListener("visibilitychange", onVisibilityChange);
+  }, []);
+
+  const onExpireRef = useRef(onExpire);
+  useEffect(() => {
+    onExpireRef.current = onExpire;
+  });
+
+  const reason = deadline?.reason;
+  useEffect(() => {
+    if (isExpired && reason) {
+      onExpireRef.current(reason);
+    }
+  }, [isExpired, reason]);
+
+  // While the warning shows, only an explicit "stay signed in" extends the
+  // session, so a stray mouse move doesn't hide it
+  const isWarningRef = useRef(isWarning);
+  useEffect(() => {
+    isWarningRef.current = isWarning;
+  });
+
+  const hasIdleTimeout = idleExpiresAt !== null;
+  useEffect(() => {
+    if (!hasIdleTimeout) {
+      return;
+    }
+    const onActivity = () => {
+      const at = Date.now();
+      if (isWarningRef.current || at - lastReportAt.current < ACTIVITY_REPORT_INTERVAL) {
+        return;
+      }
+      lastReportAt.current = at;
+      // NextAuth broadcasts the updated session to the other tabs
+      update({ activity: true });
+    };
+    ACTIVITY_EVENTS.forEach((event) =>
+      window.addEventListener(event, onActivity, { passive: true })
+    );
+    return () =>
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, onActivity));
+  }, [hasIdleTimeout, update]);
+
+  const extend = useCallback(async () => {
+    setIsExtending(true);
+    lastReportAt.current = Date.now();
+    try {
+      await update({ activity: true });
+    } finally {
+      setIsExtending(false);
+      setNow(Date.now());
+    }
+  }, [update]);
+
+  const serverDeadlineAt = deadline?.at ?? null;
+  const dismiss = useCallback(() => setDismissedAt(serverDeadlineAt), [serverDeadlineAt]);
+
+  const warning =
+    deadline && deadlineAt !== null && isWarning && !isExpired && dismissedAt !== deadline.at
+      ? {
+          reason: deadline.reason,
+          secondsLeft: Math.max(0, Math.ceil((deadlineAt - now) / 1000)),
+        }
+      : null;
+
+  return { warning, extend, dismiss, isExtending };
+}
@@ -0,0 +1,9 @@
+// Runs once when the server starts: load the config modules so a bad
+// environment stops the server with a readable report instead of failing
+// on the first request that needs the missing value.
+export async function register() {
+  await import("@/lib/config/public");
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    await import("@/lib/config/server");
+  }
+}
@@ -0,0 +1,354 @@
+// Error classes thrown by the API client. Every failure is an ApiError, so
+// callers can switch on the subclass (or the type guards below) instead of
+// matching message strings.
+
+// Error codes the backend sends in `error.code`
+export const ApiErrorCode = {
+  ValidationFailed: "VALIDATION_ERROR",
+  InvalidCredentials: "INVALID_CREDENTIALS",
+  InvalidToken: "INVALID_TOKEN",
+  InvalidOtp: "INVALID_OTP",
+  UserNotFound: "USER_NOT_FOUND",
+  AccountDisabled: "ACCOUNT_DISABLED",
+  RateLimited: "RATE_LIMITED",
+  EmailNotVerified: "EMAIL_NOT_VERIFIED",
+  EmailAlreadyRegistered: "EMAIL_ALREADY_REGISTERED",
+  UsernameTaken: "USERNAME_TAKEN",
+  AccountExistsWithPassword: "ACCOUNT_EXISTS_WITH_PASSWORD",
+  // The account signs in with an external provider only; `provider` in the
+  // error names it
+  AccountExistsWithOAuth: "ACCOUNT_EXISTS_WITH_OAUTH",
+  // The email belongs to an account linked to another account of the provider
+  OAuthAccountMismatch: "OAUTH_ACCOUNT_MISMATCH",
+  // The provider account being connected already signs in to another user
+  IdentityInUse: "IDENTITY_IN_USE",
+  // Unlinking would leave the account without any way to sign in
+  LastLoginMethod: "LAST_LOGIN_METHOD",
+  // Password accepted; the account also needs an authenticator or backup code
+  TwoFactorRequired: "TWO_FACTOR_REQUIRED",
+  InvalidTwoFactorCode: "INVALID_TWO_FACTOR_CODE",
+  // Sign-in link past its lifetime, or already exchanged once
+  MagicLinkExpired: "MAGIC_LINK_EXPIRED",
+  MagicLinkUsed: "MAGIC_LINK_USED",
+  // Sent by our own API routes guarded with requireRecentAuth
+  ReauthRequired: "REAUTH_REQUIRED",
+} as const;
+
+export type ApiErrorCode = (typeof ApiErrorCode)[keyof typeof ApiErrorCode];
+
+// Field name -> validation messages, as reported by the backend
+export type FieldErrors = Record<string, string[]>;
+
+export interface ApiErrorDetails {
+  endpoint: string;
+  status: number;
+  code?: string;
+  fieldErrors?: FieldErrors;
+  retryAfter?: number;
+  // Raw error body returned by the backend
+  data?: unknown;
+}
+
+export class ApiError extends Error {
+  readonly endpoint: string;
+  // HTTP status, 0 when no response was received
+  readonly status: number;
+  // Machine-readable error code from the backend (e.g. "VALIDATION_ERROR")
+  readonly code?: string;
+  readonly fieldErrors: FieldErrors;
+  // Seconds to wait before retrying, when the backend says so
+  readonly retryAfter?: number;
+  readonly data?: unknown;
+
+  constructor(message: string, details: ApiErrorDetails) {
+    super(message);
+    this.name = "ApiError";
+    this.endpoint = details.endpoint;
+    this.status = details.status;
+    this.code = details.code;
+    this.fieldErrors = details.fieldErrors ?? {};
+    this.retryAfter = details.retryAfter;
+    this.data = details.data;
+  }
+
+  // Backend-specific fields of the error object, e.g. `requires_verification`
+  get details(): Record<string, unknown> {
+    return extractErrorObject(this.data);
+  }
+}
+
+// 400 / 422: the request payload was rejected
+export class ValidationError extends ApiError {
+  readonly name = "ValidationError";
+}
+
+// 401: missing, invalid or expired credentials
+export class UnauthorizedError extends ApiError {
+  readonly name = "UnauthorizedError";
+}
+
+// 403: authenticated but not allowed (e.g. banned account)
+export class ForbiddenError extends ApiError {
+  readonly name = "ForbiddenError";
+}
+
+// 404: the user or resource doesn't exist
+export class NotFoundError extends ApiError {
+  readonly name = "NotFoundError";
+}
+
+// 409: conflicts with existing state (e.g. email already registered)
+export class ConflictError extends ApiError {
+  readonly name = "ConflictError";
+}
+
+// 429: too many requests, see `retryAfter`
+export class RateLimitedError extends ApiError {
+  readonly name = "RateLimitedError";
+}
+
+// 5xx: the backend failed to handle the request
+export class ServerError extends ApiError {
+  readonly name = "ServerError";
+}
+
+// No response received (offline, DNS, connection reset, CORS...)
+export class NetworkError extends ApiError {
+  readonly name = "NetworkError";
+
+  constructor(endpoint: string) {
+    super(`Network error while requesting ${endpoint}`, { endpoint, status: 0 });
+  }
+}
+
+// The request took longer than its timeout and was aborted
+export class ApiTimeoutError extends ApiError {
+  readonly name = "ApiTimeoutError";
+  readonly timeout: number;
+
+  constructor(endpoint: string, timeout: number) {
+    super(`Request to ${endpoint} timed out after ${timeout}ms`, {
+      endpoint,
+      status: 0,
+    });
+    this.timeout = timeout;
+  }
+}
+
+// The request was cancelled through the caller's AbortSignal
+export class ApiAbortError extends ApiError {
+  readonly name = "ApiAbortError";
+
+  constructor(endpoint: string) {
+    super(`Request to ${endpoint} was aborted`, { endpoint, status: 0 });
+  }
+}
+
+export interface SchemaIssue {
+  // Dotted path to the offending field, e.g. "user.access_token"
+  path: string;
+  message: string;
+}
+
+// A request payload or backend response didn't match its schema
+export class SchemaValidationError extends ApiError {
+  readonly name = "SchemaValidationError";
+  readonly direction: "request" | "response";
+  readonly issues: SchemaIssue[];
+
+  constructor(
+    endpoint: string,
+    direction: "request" | "response",
+    issues: SchemaIssue[],
+    status = 0
+  ) {
+    const summary = issues
+      .map((issue) => `${issue.path || "(root)"}: ${issue.message}`)
+      .join("; ");
+    super(`Invalid ${direction} for ${endpoint}: ${summary}`, {
+      endpoint,
+      status,
+      code: ApiErrorCode.ValidationFailed,
+      fieldErrors: issues.reduce<FieldErrors>((fields, issue) => {
+        (fields[issue.path || "(root)"] ??= []).push(issue.message);
+        return fields;
+      }, {}),
+    });
+    this.direction = direction;
+    this.issues = issues;
+  }
+}
+
+export const isApiError = (error: unknown): error is ApiError =>
+  error instanceof ApiError;
+
+export const isValidationError = (error: unknown): error is ValidationError =>
+  error instanceof ValidationError;
+
+export const isUnauthorizedError = (error: unknown): error is UnauthorizedError =>
+  error instanceof UnauthorizedError;
+
+export const isForbiddenError = (error: unknown): error is ForbiddenError =>
+  error instanceof ForbiddenError;
+
+// A route guarded with requireRecentAuth wants the credentials checked again
+export const isReauthRequiredError = (error: unknown): error is ForbiddenError =>
+  error instanceof ForbiddenError && error.code === ApiErrorCode.ReauthRequired;
+
+export const isNotFoundError = (error: unknown): error is NotFoundError =>
+  error instanceof NotFoundError;
+
+export const isConflictError = (error: unknown): error is ConflictError =>
+  error instanceof ConflictError;
+
+export const isRateLimitedError = (error: unknown): error is RateLimitedError =>
+  error instanceof RateLimitedError;
+
+export const isServerError = (error: unknown): error is ServerError =>
+  error instanceof ServerError;
+
+export const isNetworkError = (error: unknown): error is NetworkError =>
+  error instanceof NetworkError;
+
+export const isTimeoutError = (error: unknown): error is ApiTimeoutError =>
+  error instanceof ApiTimeoutError;
+
+export const isAbortError = (error: unknown): error is ApiAbortError =>
+  error instanceof ApiAbortError;
+
+export const isSchemaValidationError = (
+  error: unknown
+): error is SchemaValidationError => error instanceof SchemaValidationError;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// The backend nests errors as `{ error: {...} }`, sometimes inside `{ data: ... }`
+function extractErrorObject(body: unknown): Record<string, unknown> {
+  if (!isRecord(body)) {
+    return {};
+  }
+  if (isRecord(body.data) && isRecord(body.data.error)) {
+    return body.data.error;
+  }
+  if (isRecord(body.error)) {
+    return body.error;
+  }
+  return {};
+}
+
+function extractMessage(body: unknown): string | undefined {
+  if (!isRecord(body)) {
+    return undefined;
+  }
+  const data = isRecord(body.data) ? body.data : {};
+  const candidates = [
+    data.message,
+    isRecord(data.error) ? data.error.message : undefined,
+    body.message,
+    isRecord(body.error) ? body.error.message : body.error,
+  ];
+  return candidates.find(
+    (candidate): candidate is string =>
+      typeof candidate === "string" && candidate.trim() !== ""
+  );
+}
+
+function extractCode(body: unknown): string | undefined {
+  if (!isRecord(body)) {
+    return undefined;
+  }
+  const code = extractErrorObject(body).code ?? body.code;
+  return typeof code === "string" ? code : undefined;
+}
+
+// Accepts `{ field: "msg" | ["msg"] }` or `[{ field, message }]`
+function extractFieldErrors(body: unknown): FieldErrors | undefined {
+  if (!isRecord(body)) {
+    return undefined;
+  }
+  const error = extractErrorObject(body);
+  const source = error.fields ?? error.details ?? body.errors;
+  const fieldErrors: FieldErrors = {};
+
+  if (Array.isArray(source)) {
+    for (const item of source) {
+      if (isRecord(item) && typeof item.field === "string") {
+        const message = typeof item.message === "string" ? item.message : "Invalid value";
+        (fieldErrors[item.field] ??= []).push(message);
+      }
+    }
+  } else if (isRecord(source)) {
+    for (const [field, value] of Object.entries(source)) {
+      const messages = (Array.isArray(value) ? value : [value]).filter(
+        (message): message is string => typeof message === "string"
+      );
+      if (messages.length > 0) {
+        fieldErrors[field] = messages;
+      }
+    }
+  }
+
+  return Object.keys(fieldErrors).length > 0 ? fieldErrors : undefined;
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfter(headers: Headers, body: unknown): number | undefined {
+  const header = headers.get("Retry-After");
+  if (header) {
+    const seconds = Number(header);
+    if (Number.isFinite(seconds)) {
+      return Math.max(0, seconds);
+    }
+    const date = Date.parse(header);
+    if (!Number.isNaN(date)) {
+      return Math.max(0, Math.ceil((date - Date.now()) / 1000));
+    }
+  }
+  if (isRecord(body)) {
+    const retryAfter = extractErrorObject(body).retry_after ?? body.retry_after;
+    if (typeof retryAfter === "number") {
+      return retryAfter;
+    }
+  }
+  return undefined;
+}
+
+// Build the matching ApiError subclass from a failed HTTP response
+export function createApiError(
+  endpoint: string,
+  response: Response,
+  body: unknown
+): ApiError {
+  const { status } = response;
+  const message =
+    extractMessage(body) || `HTTP ${status}: ${response.statusText}`;
+  const details: ApiErrorDetails = {
+    endpoint,
+    status,
+    code: extractCode(body),
+    fieldErrors: extractFieldErrors(body),
+    retryAfter: parseRetryAfter(response.headers, body),
+    data: body,
+  };
+
+  switch (status) {
+    case 400:
+    case 422:
+      return new ValidationError(message, details);
+    case 401:
+      return new UnauthorizedError(message, details);
+    case 403:
+      return new ForbiddenError(message, details);
+    case 404:
+      return new NotFoundError(message, details);
+    case 409:
+      return new ConflictError(message, details);
+    case 429:
+      return new RateLimitedError(message, details);
+    default:
+      return status >= 500
+        ? new ServerError(message, details)
+        : new ApiError(message, details);
+  }
+}
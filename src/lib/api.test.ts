@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ApiClient } from "@/lib/api";
+import { isUnauthorizedError } from "@/lib/api-errors";
+import { createMockAuthBackend } from "@/mocks/auth-backend/server";
+
+const USER = { email: "ayu@example.com", full_name: "Ayu", password: "Rahasia123!", is_verified: true };
+
+describe("ApiClient session expiry", () => {
+  let backend: ReturnType<typeof createMockAuthBackend>;
+  let client: ApiClient;
+  let refreshToken: string;
+
+  // Sign in against a fresh backend, then let the access token go bad so
+  // the next authenticated request answers 401. The refresh is slowed down
+  // so concurrent requests all hit the 401 while it is still running
+  const setup = async () => {
+    backend = createMockAuthBackend({
+      users: [USER],
+      failures: [{ path: "/api/v1/auth/refresh-token", delay: 50 }],
+    });
+    client = new ApiClient(await backend.listen(0));
+    const signedIn = await client.login({ email: USER.email, password: USER.password });
+    refreshToken = signedIn.refresh_token!;
+    client.setAccessToken("expired-access-token");
+  };
+
+  // Exchanges the refresh token like NextAuth's jwt callback does
+  const refreshHandler = vi.fn(async () => {
+    try {
+      const tokens = await client.refreshToken(refreshToken);
+      client.setAccessToken(tokens.access_token!);
+      refreshToken = tokens.refresh_token ?? refreshToken;
+      return true;
+    } catch {
+      return false;
+    }
+  });
+
+  beforeEach(async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    refreshHandler.mockClear();
+    await setup();
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await backend.close();
+  });
+
+  it("refreshes once and replays every request that got a 401", async () => {
+    const onExpired = vi.fn();
+    client.onSessionExpired(onExpired);
+    client.setRefreshHandler(refreshHandler);
+
+    const results = await Promise.all([
+      client.getCurrentUser(),
+      client.getCurrentUser(),
+      client.getCurrentUser(),
+    ]);
+
+    expect(results.map((result) => result.user.email)).toEqual([USER.email, USER.email, USER.email]);
+    expect(refreshHandler).toHaveBeenCalledTimes(1);
+    expect(onExpired).not.toHaveBeenCalled();
+  });
+
+  it("emits session expired once when the refresh fails", async () => {
+    const onExpired = vi.fn();
+    client.onSessionExpired(onExpired);
+    client.setRefreshHandler(refreshHandler);
+    // Signed out everywhere: the refresh token is no longer accepted
+    backend.store.revokeUserSessions(backend.store.findByEmail(USER.email)!.id);
+
+    const results = await Promise.allSettled([
+      client.getCurrentUser(),
+      client.getCurrentUser(),
+      client.getCurrentUser(),
+    ]);
+
+    expect(
+      results.every((result) => result.status === "rejected" && isUnauthorizedError(result.reason))
+    ).toBe(true);
+    expect(refreshHandler).toHaveBeenCalledTimes(1);
+    expect(onExpired).toHaveBeenCalledTimes(1);
+  });
+
+  it("treats a handler that throws as a failed refresh", async () => {
+    const onExpired = vi.fn();
+    client.onSessionExpired(onExpired);
+    client.setRefreshHandler(async () => {
+      throw new Error("network down");
+    });
+
+    await expect(client.getCurrentUser()).rejects.toSatisfy(isUnauthorizedError);
+    expect(onExpired).toHaveBeenCalledTimes(1);
+  });
+
+  it("replays instead of refreshing when the session was renewed elsewhere", async () => {
+    const onExpired = vi.fn();
+    client.onSessionExpired(onExpired);
+    client.setRefreshHandler(refreshHandler);
+    const { access_token } = await client.refreshToken(refreshToken);
+
+    // Another tab renews the session while this request is in flight
+    const request = client.getCurrentUser();
+    client.setAccessToken(access_token!);
+    client.markSessionRefreshed();
+
+    await expect(request).resolves.toMatchObject({ user: { email: USER.email } });
+    expect(refreshHandler).not.toHaveBeenCalled();
+    expect(onExpired).not.toHaveBeenCalled();
+  });
+
+  it("stops notifying listeners that unsubscribed", async () => {
+    const onExpired = vi.fn();
+    const unsubscribe = client.onSessionExpired(onExpired);
+    unsubscribe();
+    client.setRefreshHandler(async () => false);
+
+    await expect(client.getCurrentUser()).rejects.toSatisfy(isUnauthorizedError);
+    expect(onExpired).not.toHaveBeenCalled();
+  });
+});
@@ -1,4 +1,5 @@
 // API client for authentication only
+import type { z } from "zod";
 import type {
   RegisterRequest,
   LoginRequest,
@@ -8,21 +9,188 @@ import type {
   VerifyResetPasswordRequest,
   RegisterResponse,
   AuthResponse,
+  TokenResponse,
+  RefreshTokenResponse,
+  CurrentUserResponse,
   OTPVerifyResponse,
   ResendOTPResponse,
   ResetPasswordResponse,
   VerifyResetPasswordResponse,
-  GoogleOAuthRequest,
+  ResetPasswordWithTokenRequest,
+  OAuthRequest,
+  LogoutResponse,
+  ActiveSessionsResponse,
+  RevokeSessionResponse,
+  TwoFactorSetupResponse,
+  TwoFactorEnableResponse,
+  TwoFactorDisableResponse,
+  TwoFactorVerifyRequest,
+  PasskeysResponse,
+  PasskeyRegistrationOptions,
+  PasskeyRegistrationRequest,
+  PasskeyRegistrationResponse,
+  DeletePasskeyResponse,
+  PasskeyLoginOptionsResponse,
+  PasskeyLoginRequest,
+  MagicLinkRequest,
+  MagicLinkResponse,
+  LinkAccountRequest,
+  ConnectedAccountsResponse,
+  ConnectAccountRequest,
+  ConnectAccountResponse,
+  ConnectTokenResponse,
+  OAuthConnectRequest,
+  OAuthConnectResponse,
+  UnlinkAccountResponse,
+  SetPasswordRequest,
+  SetPasswordResponse,
 } from "@/types/auth";
+import {
+  ActiveSessionsResponseSchema,
+  AuthResponseSchema,
+  TokenResponseSchema,
+  RefreshTokenResponseSchema,
+  ConnectedAccountsResponseSchema,
+  CurrentUserResponseSchema,
+  DeletePasskeyResponseSchema,
+  OAuthRequestSchema,
+  LinkAccountRequestSchema,
+  LoginRequestSchema,
+  LogoutRequestSchema,
+  LogoutResponseSchema,
+  MagicLinkRequestSchema,
+  MagicLinkResponseSchema,
+  MagicLinkVerifyRequestSchema,
+  OTPVerifyRequestSchema,
+  OTPVerifyResponseSchema,
+  PasskeyLoginOptionsResponseSchema,
+  PasskeyLoginRequestSchema,
+  PasskeyRegistrationOptionsSchema,
+  PasskeyRegistrationRequestSchema,
+  PasskeyRegistrationResponseSchema,
+  PasskeysResponseSchema,
+  RefreshTokenRequestSchema,
+  RegisterRequestSchema,
+  RegisterResponseSchema,
+  ResendOTPRequestSchema,
+  ResendOTPResponseSchema,
+  ResetPasswordRequestSchema,
+  ResetPasswordResponseSchema,
+  ResetPasswordWithTokenRequestSchema,
+  RevokeSessionResponseSchema,
+  SetPasswordRequestSchema,
+  SetPasswordResponseSchema,
+  TwoFactorCodeRequestSchema,
+  TwoFactorDisableRequestSchema,
+  TwoFactorDisableResponseSchema,
+  TwoFactorEnableResponseSchema,
+  TwoFactorSetupResponseSchema,
+  TwoFactorVerifyRequestSchema,
+  ConnectAccountRequestSchema,
+  ConnectAccountResponseSchema,
+  ConnectTokenResponseSchema,
+  OAuthConnectRequestSchema,
+  OAuthConnectResponseSchema,
+  UnlinkAccountResponseSchema,
+  VerifyEmailRequestSchema,
+  VerifyResetPasswordRequestSchema,
+  VerifyResetPasswordResponseSchema,
+} from "@/lib/schemas/auth";
+import {
+  ApiAbortError,
+  ApiError,
+  ApiTimeoutError,
+  NetworkError,
+  SchemaValidationError,
+  createApiError,
+} from "@/lib/api-errors";
+import {
+  AUTH_HEADER_INTERCEPTOR,
+  ErrorInterceptor,
+  InterceptorChain,
+  RequestContext,
+  RequestInterceptor,
+  ResponseInterceptor,
+  UNWRAP_DATA_INTERCEPTOR,
+  authHeaderInterceptor,
+  unwrapDataInterceptor,
+} from "@/lib/interceptors";
+import {
+  DEFAULT_RETRY_POLICY,
+  RetryPolicy,
+  getRetryDelay,
+  isIdempotentMethod,
+  sleep,
+} from "@/lib/retry";
+
+// Default time a request may take before it is aborted (ms)
+const DEFAULT_TIMEOUT = 15000;
+
+// Endpoint used to exchange a refresh token; never retried on 401
+const REFRESH_TOKEN_ENDPOINT = "/api/v1/auth/refresh-token";
+
+// Per-call options accepted by every public ApiClient method
+export interface RequestConfig {
+  // Cancels the request when aborted (e.g. on component unmount)
+  signal?: AbortSignal;
+  // Overrides the client's default timeout (ms); 0 disables it
+  timeout?: number;
+  // Retry failed attempts; `false` disables retries an endpoint opted into.
+  // Non-idempotent methods are only retried when marked `idempotent`
+  retry?: boolean | Partial<RetryPolicy>;
+}
+
+interface RequestOptions<T>
+  extends Omit<RequestInit, "signal" | "body">,
+    RequestConfig {
+  // Skip the automatic refresh-and-replay when the request returns 401
+  skipAuthRefresh?: boolean;
+  // JSON payload, validated against `requestSchema` before it is sent
+  body?: unknown;
+  requestSchema?: z.ZodType;
+  // Validates (and types) the unwrapped response body
+  responseSchema?: z.ZodType<T>;
+}
+
+export interface ApiClientOptions {
+  // Default timeout for every request (ms); 0 disables it
+  timeout?: number;
+  // Backoff settings used by requests that opt into retries
+  retry?: Partial<RetryPolicy>;
+}
+
+// Renews the session after a 401 and resolves true when requests may be
+// replayed. Handlers that obtain a new bearer token pass it to
+// setAccessToken; in the browser the proxy reads it from the session cookie
+export type TokenRefreshHandler = () => Promise<boolean>;
 
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://192.168.194.248:5000";
+export type SessionExpiredListener = () => void;
 
-class ApiClient {
+export class ApiClient {
   private baseURL: string;
   private accessToken: string | null = null;
-
-  constructor(baseURL: string) {
+  private refreshHandler: TokenRefreshHandler | null = null;
+  private refreshPromise: Promise<boolean> | null = null;
+  // Bumped on every successful refresh
+  private refreshGeneration = 0;
+  private sessionExpiredListeners = new Set<SessionExpiredListener>();
+  private timeout: number;
+  private retryPolicy: RetryPolicy;
+
+  // Ordered hooks around every request; see @/lib/interceptors
+  readonly interceptors = {
+    request: new InterceptorChain<RequestInterceptor>(),
+    response: new InterceptorChain<ResponseInterceptor>(),
+    error: new InterceptorChain<ErrorInterceptor>(),
+  };
+
+  constructor(baseURL: string, options: ApiClientOptions = {}) {
     this.baseURL = baseURL;
+    this.timeout = options.timeout ?? DEFAULT_TIMEOUT;
+    this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...options.retry };
+
+    this.interceptors.request.use(AUTH_HEADER_INTERCEPTOR, authHeaderInterceptor);
+    this.interceptors.response.use(UNWRAP_DATA_INTERCEPTOR, unwrapDataInterceptor);
   }
 
   // Set access token for authenticated requests
@@ -35,219 +203,713 @@ class ApiClient {
     return this.accessToken;
   }
 
+  // Set the function used to obtain a new access token after a 401
+  setRefreshHandler(handler: TokenRefreshHandler | null) {
+    this.refreshHandler = handler;
+  }
+
+  // The session was renewed elsewhere (e.g. another tab): requests already in
+  // flight that come back 401 are replayed instead of refreshing again
+  markSessionRefreshed() {
+    this.refreshGeneration++;
+  }
+
+  // Subscribe to session expiry (refresh failed); returns an unsubscribe function
+  onSessionExpired(listener: SessionExpiredListener): () => void {
+    this.sessionExpiredListeners.add(listener);
+    return () => {
+      this.sessionExpiredListeners.delete(listener);
+    };
+  }
+
+  private emitSessionExpired() {
+    this.sessionExpiredListeners.forEach((listener) => {
+      try {
+        listener();
+      } catch (error) {
+        console.error("Session expired listener failed:", error);
+      }
+    });
+  }
+
+  // Renew the session once, sharing the in-flight refresh between every
+  // request that hit a 401 while it was running
+  private refreshSession(handler: TokenRefreshHandler): Promise<boolean> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = handler()
+        .catch((error) => {
+          console.error("Session refresh failed:", error);
+          return false;
+        })
+        .then((renewed) => {
+          if (renewed) {
+            this.refreshGeneration++;
+          } else {
+            this.emitSessionExpired();
+          }
+          return renewed;
+        })
+        .finally(() => {
+          this.refreshPromise = null;
+        });
+    }
+
+    return this.refreshPromise;
+  }
+
+  // Parse `value` with `schema`, turning failures into a SchemaValidationError
+  private validate<T>(
+    schema: z.ZodType<T>,
+    value: unknown,
+    endpoint: string,
+    direction: "request" | "response",
+    status?: number
+  ): T {
+    const result = schema.safeParse(value);
+    if (!result.success) {
+      const issues = result.error.issues.map((issue) => ({
+        path: issue.path.map(String).join("."),
+        message: issue.message,
+      }));
+      throw new SchemaValidationError(endpoint, direction, issues, status);
+    }
+    return result.data;
+  }
+
+  // Policy for this call, or null when it must not be retried
+  private resolveRetryPolicy(
+    retry: RequestConfig["retry"],
+    method?: string
+  ): RetryPolicy | null {
+    if (!retry) {
+      return null;
+    }
+    const policy = {
+      ...this.retryPolicy,
+      ...(retry === true ? {} : retry),
+    };
+    return policy.idempotent || isIdempotentMethod(method) ? policy : null;
+  }
+
   private async request<T>(
     endpoint: string,
-    options: RequestInit = {}
+    options: RequestOptions<T> = {}
   ): Promise<T> {
-    const url = `${this.baseURL}${endpoint}`;
+    const { retry, ...sendOptions } = options;
+    const policy = this.resolveRetryPolicy(retry, options.method);
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.send(endpoint, sendOptions);
+      } catch (error) {
+        const delay = policy ? getRetryDelay(policy, error, attempt) : null;
+        if (delay === null) {
+          throw error;
+        }
+        console.warn(
+          `Retrying ${endpoint} in ${delay}ms (attempt ${attempt + 1}/${policy!.retries})`
+        );
+        await sleep(delay, options.signal, endpoint);
+      }
+    }
+  }
 
-    const config: RequestInit = {
-      headers: {
-        "Content-Type": "application/json",
-        ...options.headers,
-      },
-      ...options,
-    };
+  // Pass a failed attempt through the error interceptors and log it
+  private async interceptError(error: ApiError, context: RequestContext): Promise<ApiError> {
+    let apiError = error;
+    for (const interceptor of this.interceptors.error.list()) {
+      apiError = await interceptor(apiError, context);
+    }
 
-    // Add Authorization header if access token is available
-    if (this.accessToken) {
-      config.headers = {
-        ...config.headers,
-        Authorization: `Bearer ${this.accessToken}`,
-      };
+    if (!(apiError instanceof ApiAbortError)) {
+      console.error(`API Error [${context.endpoint}]:`, apiError);
     }
+    return apiError;
+  }
 
-    try {
-      const response = await fetch(url, config);
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-
-        // Extract error message from nested error object if present
-        let errorMessage =
-          errorData.message ||
-          errorData.error?.message ||
-          (typeof errorData.error === "string" ? errorData.error : null) ||
-          `HTTP ${response.status}: ${response.statusText}`;
-
-        // Handle data wrapper if present
-        if (errorData.data && typeof errorData.data === "object") {
-          errorMessage =
-            errorData.data.message ||
-            errorData.data.error?.message ||
-            errorMessage;
-        }
+  // Perform a single attempt of the request
+  private async send<T>(
+    endpoint: string,
+    options: RequestOptions<T>
+  ): Promise<T> {
+    const {
+      skipAuthRefresh,
+      signal,
+      timeout = this.timeout,
+      body,
+      requestSchema,
+      responseSchema,
+      ...init
+    } = options;
+
+    if (signal?.aborted) {
+      throw new ApiAbortError(endpoint);
+    }
 
-        // Ensure we have a string message, not an object
-        if (typeof errorMessage !== "string") {
-          errorMessage = `HTTP ${response.status}: ${response.statusText}`;
+    // A refresh already in flight will replace the token; wait for it
+    if (this.refreshPromise && !skipAuthRefresh) {
+      await this.refreshPromise;
+    }
+
+    let context: RequestContext = {
+      endpoint,
+      url: `${this.baseURL}${endpoint}`,
+      init: {
+        ...init,
+        headers: {
+          "Content-Type": "application/json",
+          ...(init.headers as Record<string, string> | undefined),
+        },
+      },
+      accessToken: this.accessToken,
+    };
+
+    // Reject malformed payloads before anything is sent. The failure goes
+    // through the error interceptors like any other
+    if (body !== undefined) {
+      let payload: unknown = body;
+      if (requestSchema) {
+        try {
+          payload = this.validate(requestSchema, body, endpoint, "request");
+        } catch (error) {
+          throw await this.interceptError(error as SchemaValidationError, context);
         }
+      }
+      context.init.body = JSON.stringify(payload);
+    }
 
-        // Create error with response data preserved
-        const error = new Error(errorMessage) as Error & {
-          response?: {
-            status: number;
-            data: unknown;
-          };
-        };
+    // Aborted by either the caller's signal or the timeout
+    const controller = new AbortController();
+    let timedOut = false;
+    const onAbort = () => controller.abort();
+    signal?.addEventListener("abort", onAbort);
+    const timer =
+      timeout > 0
+        ? setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+          }, timeout)
+        : null;
+
+    const generation = this.refreshGeneration;
+
+    // Set when a 401 was recovered by refreshing; the request is replayed
+    // once the timeout and abort listener of this attempt are released
+    let replay = false;
 
-        error.response = {
-          status: response.status,
-          data: errorData,
-        };
+    try {
+      for (const interceptor of this.interceptors.request.list()) {
+        context = await interceptor(context);
+      }
 
-        throw error;
+      const response = await fetch(context.url, {
+        ...context.init,
+        signal: controller.signal,
+      });
+
+      // Expired access token: refresh once and replay the request
+      if (
+        response.status === 401 &&
+        this.refreshHandler &&
+        !skipAuthRefresh &&
+        endpoint !== REFRESH_TOKEN_ENDPOINT
+      ) {
+        // Another request may have refreshed while this one was in flight
+        replay =
+          this.refreshGeneration !== generation ||
+          (await this.refreshSession(this.refreshHandler));
       }
 
-      const data = await response.json();
+      if (!replay) {
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({}));
+          throw createApiError(endpoint, response, errorData);
+        }
 
-      // Unwrap data if response is wrapped in { data: ... }
-      if (data.data) {
-        return data.data;
-      }
+        let data: unknown = await response.json();
+        for (const interceptor of this.interceptors.response.list()) {
+          data = await interceptor(data, { ...context, response });
+        }
 
-      return data;
+        return responseSchema
+          ? this.validate(responseSchema, data, endpoint, "response", response.status)
+          : (data as T);
+      }
     } catch (error) {
-      console.error(`API Error [${endpoint}]:`, error);
-      throw error;
+      let apiError: ApiError;
+      if (error instanceof ApiError) {
+        apiError = error;
+      } else if (controller.signal.aborted) {
+        apiError = timedOut
+          ? new ApiTimeoutError(endpoint, timeout)
+          : new ApiAbortError(endpoint);
+      } else {
+        // fetch rejects only when no response was received
+        apiError = new NetworkError(endpoint);
+      }
+
+      throw await this.interceptError(apiError, context);
+    } finally {
+      if (timer) {
+        clearTimeout(timer);
+      }
+      signal?.removeEventListener("abort", onAbort);
     }
+
+    return this.send<T>(endpoint, { ...options, skipAuthRefresh: true });
   }
 
   // Authentication endpoints
-  async register(data: RegisterRequest): Promise<RegisterResponse> {
-    return this.request<RegisterResponse>("/api/v1/auth/register", {
+  async register(
+    data: RegisterRequest,
+    config?: RequestConfig
+  ): Promise<RegisterResponse> {
+    return this.request("/api/v1/auth/register", {
+      method: "POST",
+      body: data,
+      requestSchema: RegisterRequestSchema,
+      responseSchema: RegisterResponseSchema,
+      ...config,
+    });
+  }
+
+  async login(
+    data: LoginRequest,
+    config?: RequestConfig
+  ): Promise<AuthResponse> {
+    return this.request("/api/v1/auth/login", {
+      method: "POST",
+      body: data,
+      requestSchema: LoginRequestSchema,
+      responseSchema: AuthResponseSchema,
+      // A 401 means wrong credentials, also when re-authenticating inside a session
+      skipAuthRefresh: true,
+      ...config,
+    });
+  }
+
+  async verifyOTP(
+    data: OTPVerifyRequest,
+    config?: RequestConfig
+  ): Promise<OTPVerifyResponse> {
+    return this.request("/api/v1/auth/verify-otp", {
+      method: "POST",
+      body: data,
+      requestSchema: OTPVerifyRequestSchema,
+      responseSchema: OTPVerifyResponseSchema,
+      ...config,
+    });
+  }
+
+  async resendOTP(
+    data: ResendOTPRequest,
+    config?: RequestConfig
+  ): Promise<ResendOTPResponse> {
+    return this.request("/api/v1/auth/resend-otp", {
+      method: "POST",
+      body: data,
+      requestSchema: ResendOTPRequestSchema,
+      responseSchema: ResendOTPResponseSchema,
+      ...config,
+    });
+  }
+
+  // Exchange a verified provider identity for backend tokens. Answers 409
+  // with a `link_token` when the email belongs to a password account
+  async oauthSignIn(
+    data: OAuthRequest,
+    config?: RequestConfig
+  ): Promise<TokenResponse> {
+    return this.request("/api/v1/auth/oauth", {
+      method: "POST",
+      body: data,
+      requestSchema: OAuthRequestSchema,
+      responseSchema: TokenResponseSchema,
+      ...config,
+    });
+  }
+
+  // Finish a provider sign-in that matched a password account: proves
+  // ownership with the password, links the provider and answers like login
+  async linkAccount(
+    data: LinkAccountRequest,
+    config?: RequestConfig
+  ): Promise<AuthResponse> {
+    return this.request("/api/v1/auth/link-account", {
+      method: "POST",
+      body: data,
+      requestSchema: LinkAccountRequestSchema,
+      responseSchema: AuthResponseSchema,
+      // A 401 means a wrong password, not an expired session
+      skipAuthRefresh: true,
+      ...config,
+    });
+  }
+
+  // Login providers connected to the current user
+  async getConnectedAccounts(config?: RequestConfig): Promise<ConnectedAccountsResponse> {
+    return this.request("/api/v1/auth/identities", {
+      method: "GET",
+      responseSchema: ConnectedAccountsResponseSchema,
+      retry: true,
+      ...config,
+    });
+  }
+
+  // Link a provider sign-in (its `link_token`) to the current user
+  async connectAccount(
+    data: ConnectAccountRequest,
+    config?: RequestConfig
+  ): Promise<ConnectAccountResponse> {
+    return this.request("/api/v1/auth/identities", {
       method: "POST",
-      body: JSON.stringify(data),
+      body: data,
+      requestSchema: ConnectAccountRequestSchema,
+      responseSchema: ConnectAccountResponseSchema,
+      ...config,
     });
   }
 
-  async login(data: LoginRequest): Promise<AuthResponse> {
-    return this.request<AuthResponse>("/api/v1/auth/login", {
+  // Start connecting a provider to the current user: the token goes along
+  // with the provider sign-in (see oauthConnect)
+  async createConnectToken(config?: RequestConfig): Promise<ConnectTokenResponse> {
+    return this.request("/api/v1/auth/identities/connect-token", {
       method: "POST",
-      body: JSON.stringify(data),
+      responseSchema: ConnectTokenResponseSchema,
+      ...config,
     });
   }
 
-  async verifyOTP(data: OTPVerifyRequest): Promise<OTPVerifyResponse> {
-    return this.request<OTPVerifyResponse>("/api/v1/auth/verify-otp", {
+  // Link the provider account the user just signed in to, instead of signing
+  // in with it. Called by the app server, like oauthSignIn
+  async oauthConnect(
+    data: OAuthConnectRequest,
+    config?: RequestConfig
+  ): Promise<OAuthConnectResponse> {
+    return this.request("/api/v1/auth/oauth/connect", {
       method: "POST",
-      body: JSON.stringify(data),
+      body: data,
+      requestSchema: OAuthConnectRequestSchema,
+      responseSchema: OAuthConnectResponseSchema,
+      ...config,
     });
   }
 
-  async resendOTP(data: ResendOTPRequest): Promise<ResendOTPResponse> {
-    return this.request<ResendOTPResponse>("/api/v1/auth/resend-otp", {
+  async unlinkAccount(
+    provider: string,
+    config?: RequestConfig
+  ): Promise<UnlinkAccountResponse> {
+    return this.request(`/api/v1/auth/identities/${encodeURIComponent(provider)}`, {
+      method: "DELETE",
+      responseSchema: UnlinkAccountResponseSchema,
+      ...config,
+    });
+  }
+
+  async setPassword(
+    data: SetPasswordRequest,
+    config?: RequestConfig
+  ): Promise<SetPasswordResponse> {
+    return this.request("/api/v1/auth/password", {
       method: "POST",
-      body: JSON.stringify(data),
+      body: data,
+      requestSchema: SetPasswordRequestSchema,
+      responseSchema: SetPasswordResponseSchema,
+      ...config,
     });
   }
 
-  async googleOAuth(data: GoogleOAuthRequest): Promise<AuthResponse> {
-    return this.request<AuthResponse>("/api/v1/auth/google-oauth", {
+  async refreshToken(
+    refreshToken: string,
+    config?: RequestConfig
+  ): Promise<RefreshTokenResponse> {
+    return this.request(REFRESH_TOKEN_ENDPOINT, {
       method: "POST",
-      body: JSON.stringify(data),
+      body: { refresh_token: refreshToken },
+      requestSchema: RefreshTokenRequestSchema,
+      responseSchema: RefreshTokenResponseSchema,
+      skipAuthRefresh: true,
+      // A refresh lost to a dropped connection would otherwise log the user out
+      retry: { idempotent: true },
+      ...config,
+    });
+  }
+
+  async getCurrentUser(config?: RequestConfig): Promise<CurrentUserResponse> {
+    return this.request("/api/v1/auth/me", {
+      method: "GET",
+      responseSchema: CurrentUserResponseSchema,
+      retry: true,
+      ...config,
     });
   }
 
-  async refreshToken(refreshToken: string): Promise<AuthResponse> {
-    return this.request<AuthResponse>("/api/v1/auth/refresh-token", {
+  // Email a one-time sign-in link; answers the same whether or not the
+  // account exists
+  async requestMagicLink(
+    data: MagicLinkRequest,
+    config?: RequestConfig
+  ): Promise<MagicLinkResponse> {
+    return this.request("/api/v1/auth/magic-link", {
       method: "POST",
-      body: JSON.stringify({ refresh_token: refreshToken }),
+      body: data,
+      requestSchema: MagicLinkRequestSchema,
+      responseSchema: MagicLinkResponseSchema,
+      ...config,
+    });
+  }
+
+  // Exchange the link token; answers like login
+  async verifyMagicLink(
+    token: string,
+    config?: RequestConfig
+  ): Promise<AuthResponse> {
+    return this.request("/api/v1/auth/magic-link/verify", {
+      method: "POST",
+      body: { token },
+      requestSchema: MagicLinkVerifyRequestSchema,
+      responseSchema: AuthResponseSchema,
+      skipAuthRefresh: true,
+      ...config,
     });
   }
 
   async requestResetPassword(
-    data: ResetPasswordRequest
+    data: ResetPasswordRequest,
+    config?: RequestConfig
   ): Promise<ResetPasswordResponse> {
-    return this.request<ResetPasswordResponse>(
-      "/api/v1/auth/forgot-password",
-      {
-        method: "POST",
-        body: JSON.stringify(data),
-      }
-    );
+    return this.request("/api/v1/auth/forgot-password", {
+      method: "POST",
+      body: data,
+      requestSchema: ResetPasswordRequestSchema,
+      responseSchema: ResetPasswordResponseSchema,
+      ...config,
+    });
   }
 
   async verifyResetPassword(
-    data: VerifyResetPasswordRequest
+    data: VerifyResetPasswordRequest,
+    config?: RequestConfig
   ): Promise<VerifyResetPasswordResponse> {
-    return this.request<VerifyResetPasswordResponse>(
-      "/api/v1/auth/verify-reset-password",
-      {
-        method: "POST",
-        body: JSON.stringify(data),
-      }
-    );
+    return this.request("/api/v1/auth/verify-reset-password", {
+      method: "POST",
+      body: data,
+      requestSchema: VerifyResetPasswordRequestSchema,
+      responseSchema: VerifyResetPasswordResponseSchema,
+      ...config,
+    });
   }
 
-  async resetPassword(data: {
-    token: string;
-    newPassword: string;
-  }): Promise<AuthResponse> {
-    return this.request<AuthResponse>("/api/v1/auth/reset-password", {
+  async resetPassword(
+    data: ResetPasswordWithTokenRequest,
+    config?: RequestConfig
+  ): Promise<AuthResponse> {
+    return this.request("/api/v1/auth/reset-password", {
       method: "POST",
-      body: JSON.stringify({ token: data.token, newPassword: data.newPassword }),
+      body: data,
+      requestSchema: ResetPasswordWithTokenRequestSchema,
+      responseSchema: AuthResponseSchema,
+      ...config,
     });
   }
 
-  async verifyEmail(token: string): Promise<AuthResponse> {
-    return this.request<AuthResponse>("/api/v1/auth/verify-email", {
+  // Revoke one refresh token (this device)
+  async logout(
+    refreshToken: string,
+    config?: RequestConfig
+  ): Promise<LogoutResponse> {
+    return this.request("/api/v1/auth/logout", {
       method: "POST",
-      body: JSON.stringify({ token }),
+      body: { refresh_token: refreshToken },
+      requestSchema: LogoutRequestSchema,
+      responseSchema: LogoutResponseSchema,
+      skipAuthRefresh: true,
+      ...config,
     });
   }
-}
 
-// Create API client instance
-export const api = new ApiClient(API_BASE_URL);
+  // Revoke every refresh token of the signed-in user
+  async logoutAllDevices(config?: RequestConfig): Promise<LogoutResponse> {
+    return this.request("/api/v1/auth/logout-all", {
+      method: "POST",
+      responseSchema: LogoutResponseSchema,
+      ...config,
+    });
+  }
 
-// Token management utilities
-export class TokenManager {
-  private static ACCESS_TOKEN_KEY = "access_token";
-  private static REFRESH_TOKEN_KEY = "refresh_token";
+  // Second login step for accounts with 2FA; answers like login
+  async verifyTwoFactor(
+    data: TwoFactorVerifyRequest,
+    config?: RequestConfig
+  ): Promise<AuthResponse> {
+    return this.request("/api/v1/auth/2fa/verify", {
+      method: "POST",
+      body: data,
+      requestSchema: TwoFactorVerifyRequestSchema,
+      responseSchema: AuthResponseSchema,
+      // A 401 means a wrong code, not an expired session
+      skipAuthRefresh: true,
+      ...config,
+    });
+  }
 
-  static setTokens(accessToken: string, refreshToken: string): void {
-    if (typeof window !== "undefined") {
-      localStorage.setItem(this.ACCESS_TOKEN_KEY, accessToken);
-      localStorage.setItem(this.REFRESH_TOKEN_KEY, refreshToken);
-    }
+  // Start enrollment: a new secret, active once confirmed with enableTwoFactor
+  async setupTwoFactor(config?: RequestConfig): Promise<TwoFactorSetupResponse> {
+    return this.request("/api/v1/auth/2fa/setup", {
+      method: "POST",
+      responseSchema: TwoFactorSetupResponseSchema,
+      ...config,
+    });
   }
 
-  static getAccessToken(): string | null {
-    if (typeof window !== "undefined") {
-      return localStorage.getItem(this.ACCESS_TOKEN_KEY);
-    }
-    return null;
+  async enableTwoFactor(
+    code: string,
+    config?: RequestConfig
+  ): Promise<TwoFactorEnableResponse> {
+    return this.request("/api/v1/auth/2fa/enable", {
+      method: "POST",
+      body: { code },
+      requestSchema: TwoFactorCodeRequestSchema,
+      responseSchema: TwoFactorEnableResponseSchema,
+      ...config,
+    });
   }
 
-  static getRefreshToken(): string | null {
-    if (typeof window !== "undefined") {
-      return localStorage.getItem(this.REFRESH_TOKEN_KEY);
-    }
-    return null;
+  async disableTwoFactor(
+    code: string,
+    config?: RequestConfig
+  ): Promise<TwoFactorDisableResponse> {
+    return this.request("/api/v1/auth/2fa/disable", {
+      method: "POST",
+      body: { code },
+      requestSchema: TwoFactorDisableRequestSchema,
+      responseSchema: TwoFactorDisableResponseSchema,
+      ...config,
+    });
   }
 
-  static clearTokens(): void {
-    if (typeof window !== "undefined") {
-      localStorage.removeItem(this.ACCESS_TOKEN_KEY);
-      localStorage.removeItem(this.REFRESH_TOKEN_KEY);
-    }
+  // Passkeys registered by the current user
+  async getPasskeys(config?: RequestConfig): Promise<PasskeysResponse> {
+    return this.request("/api/v1/auth/passkeys", {
+      method: "GET",
+      responseSchema: PasskeysResponseSchema,
+      retry: true,
+      ...config,
+    });
   }
 
-  static async refreshAccessToken(): Promise<string | null> {
-    const refreshToken = this.getRefreshToken();
-    if (!refreshToken) {
-      return null;
-    }
+  // Registration ceremony: options for startRegistration, then the new credential
+  async getPasskeyRegistrationOptions(
+    config?: RequestConfig
+  ): Promise<PasskeyRegistrationOptions> {
+    return this.request("/api/v1/auth/passkeys/register/options", {
+      method: "POST",
+      responseSchema: PasskeyRegistrationOptionsSchema,
+      ...config,
+    });
+  }
 
-    try {
-      const response = await api.refreshToken(refreshToken);
-      this.setTokens(response.access_token, response.refresh_token);
-      return response.access_token;
-    } catch (error) {
-      console.error("Token refresh failed:", error);
-      this.clearTokens();
-      return null;
+  async registerPasskey(
+    data: PasskeyRegistrationRequest,
+    config?: RequestConfig
+  ): Promise<PasskeyRegistrationResponse> {
+    return this.request("/api/v1/auth/passkeys/register/verify", {
+      method: "POST",
+      body: data,
+      requestSchema: PasskeyRegistrationRequestSchema,
+      responseSchema: PasskeyRegistrationResponseSchema,
+      ...config,
+    });
+  }
+
+  async deletePasskey(
+    passkeyId: string,
+    config?: RequestConfig
+  ): Promise<DeletePasskeyResponse> {
+    return this.request(`/api/v1/auth/passkeys/${encodeURIComponent(passkeyId)}`, {
+      method: "DELETE",
+      responseSchema: DeletePasskeyResponseSchema,
+      ...config,
+    });
+  }
+
+  // Authentication ceremony: options for startAuthentication (any passkey of
+  // any user), then the assertion, which answers like login
+  async getPasskeyLoginOptions(
+    config?: RequestConfig
+  ): Promise<PasskeyLoginOptionsResponse> {
+    return this.request("/api/v1/auth/passkeys/login/options", {
+      method: "POST",
+      responseSchema: PasskeyLoginOptionsResponseSchema,
+      skipAuthRefresh: true,
+      ...config,
+    });
+  }
+
+  async verifyPasskeyLogin(
+    data: PasskeyLoginRequest,
+    config?: RequestConfig
+  ): Promise<TokenResponse> {
+    return this.request("/api/v1/auth/passkeys/login/verify", {
+      method: "POST",
+      body: data,
+      requestSchema: PasskeyLoginRequestSchema,
+      responseSchema: TokenResponseSchema,
+      // A 401 means a rejected assertion, not an expired session
+      skipAuthRefresh: true,
+      ...config,
+    });
+  }
+
+  // Devices the current user is signed in on
+  async getSessions(config?: RequestConfig): Promise<ActiveSessionsResponse> {
+    return this.request("/api/v1/auth/sessions", {
+      method: "GET",
+      responseSchema: ActiveSessionsResponseSchema,
+      retry: true,
+      ...config,
+    });
+  }
+
+  // Sign one device out; its refresh token stops working
+  async revokeSession(
+    sessionId: string,
+    config?: RequestConfig
+  ): Promise<RevokeSessionResponse> {
+    return this.request(`/api/v1/auth/sessions/${encodeURIComponent(sessionId)}`, {
+      method: "DELETE",
+      responseSchema: RevokeSessionResponseSchema,
+      ...config,
+    });
+  }
+
+  async verifyEmail(
+    token: string,
+    config?: RequestConfig
+  ): Promise<AuthResponse> {
+    return this.request("/api/v1/auth/verify-email", {
+      method: "POST",
+      body: { token },
+      requestSchema: VerifyEmailRequestSchema,
+      responseSchema: AuthResponseSchema,
+      ...config,
+    });
+  }
+}
+
+// Browser API client. Requests go through the same-origin proxy, which
+// attaches the access token from the session cookie
+export const API_PROXY_PATH = "/api/proxy";
+export const api = new ApiClient(API_PROXY_PATH);
+
+// Tokens used to be kept in localStorage; they now live only in the
+// encrypted session cookie. Purges what older versions left behind
+export class TokenManager {
+  private static LEGACY_KEYS = ["access_token", "refresh_token"];
+
+  static clearTokens(): void {
+    if (typeof window !== "undefined") {
+      this.LEGACY_KEYS.forEach((key) => localStorage.removeItem(key));
     }
   }
 }
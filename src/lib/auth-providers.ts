@@ -0,0 +1,17 @@
+// Display names of external login providers, by NextAuth/backend provider id.
+// The generic OIDC provider takes its name from OIDC_NAME on the buttons
+export const PROVIDER_LABELS: Record<string, string> = {
+  google: "Google",
+  github: "GitHub",
+  "azure-ad": "Microsoft",
+  oidc: "SSO",
+};
+
+export const getProviderLabel = (provider: string) =>
+  PROVIDER_LABELS[provider] ?? provider;
+
+// Provider named by an ACCOUNT_EXISTS_WITH_OAUTH error
+export const getErrorProviderLabel = (details: Record<string, unknown>) =>
+  typeof details.provider === "string"
+    ? getProviderLabel(details.provider)
+    : "akun eksternal";
@@ -0,0 +1,45 @@
+// Shared helpers for the config modules: parse an env object with a zod
+// schema and fail with one readable report listing every problem.
+import { z } from "zod";
+
+export class ConfigError extends Error {
+  readonly name = "ConfigError";
+
+  constructor(readonly issues: string[]) {
+    super(
+      `Invalid environment configuration:\n${issues
+        .map((issue) => `  - ${issue}`)
+        .join("\n")}\nCheck your .env.local against .env.example.`
+    );
+  }
+}
+
+// Empty strings (`FOO=` in .env files) count as unset
+export const unsetIfEmpty = (value: unknown) =>
+  typeof value === "string" && value.trim() === "" ? undefined : value;
+
+export const optionalString = () =>
+  z.preprocess(unsetIfEmpty, z.string().optional());
+
+export const optionalUrl = () =>
+  z.preprocess(unsetIfEmpty, z.url().optional());
+
+// Non-negative integer, e.g. a duration in seconds
+export const integerWithDefault = (defaultValue: number) =>
+  z.preprocess(unsetIfEmpty, z.coerce.number().int().min(0).default(defaultValue));
+
+export function parseEnv<Schema extends z.ZodType>(
+  schema: Schema,
+  env: Record<string, string | undefined>
+): z.infer<Schema> {
+  const result = schema.safeParse(env);
+  if (!result.success) {
+    throw new ConfigError(
+      result.error.issues.map((issue) => {
+        const variable = issue.path.join(".");
+        return variable ? `${variable}: ${issue.message}` : issue.message;
+      })
+    );
+  }
+  return result.data;
+}
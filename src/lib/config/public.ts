@@ -0,0 +1,32 @@
+// Configuration that is safe to ship to the browser. Next.js inlines
+// NEXT_PUBLIC_* variables at build time, so each one has to be read by its
+// full name here rather than by iterating process.env.
+import { z } from "zod";
+import { optionalString, parseEnv, unsetIfEmpty } from "@/lib/config/env";
+
+const PublicEnvSchema = z.object({
+  NEXT_PUBLIC_API_URL: z.preprocess(unsetIfEmpty, z.url().default("http://localhost:5000")),
+  NEXT_PUBLIC_GOOGLE_CLIENT_ID: optionalString(),
+  NEXT_PUBLIC_CLOUDINARY_CLOUD_NAME: optionalString(),
+  NEXT_PUBLIC_CLOUDINARY_API_KEY: optionalString(),
+});
+
+const env = parseEnv(PublicEnvSchema, {
+  NEXT_PUBLIC_API_URL: process.env.NEXT_PUBLIC_API_URL,
+  NEXT_PUBLIC_GOOGLE_CLIENT_ID: process.env.NEXT_PUBLIC_GOOGLE_CLIENT_ID,
+  NEXT_PUBLIC_CLOUDINARY_CLOUD_NAME: process.env.NEXT_PUBLIC_CLOUDINARY_CLOUD_NAME,
+  NEXT_PUBLIC_CLOUDINARY_API_KEY: process.env.NEXT_PUBLIC_CLOUDINARY_API_KEY,
+});
+
+export const publicConfig = {
+  // Backend base URL. The browser reaches it through /api/proxy; the server
+  // uses it unless BACKEND_URL is set
+  apiUrl: env.NEXT_PUBLIC_API_URL,
+  googleClientId: env.NEXT_PUBLIC_GOOGLE_CLIENT_ID,
+  cloudinary: {
+    cloudName: env.NEXT_PUBLIC_CLOUDINARY_CLOUD_NAME,
+    apiKey: env.NEXT_PUBLIC_CLOUDINARY_API_KEY,
+  },
+} as const;
+
+export type PublicConfig = typeof publicConfig;
@@ -0,0 +1,187 @@
+// Server-only configuration (secrets, internal URLs). Importing this from
+// browser code is a bug: the values would be undefined there anyway.
+import { z } from "zod";
+import {
+  integerWithDefault,
+  optionalString,
+  optionalUrl,
+  parseEnv,
+  unsetIfEmpty,
+} from "@/lib/config/env";
+import { publicConfig } from "@/lib/config/public";
+
+if (typeof window !== "undefined") {
+  throw new Error("@/lib/config/server must not be imported from browser code");
+}
+
+// Variables that together enable a login provider, by display name
+const OAUTH_PROVIDER_VARIABLES = {
+  Google: ["GOOGLE_CLIENT_ID", "GOOGLE_CLIENT_SECRET"],
+  GitHub: ["GITHUB_CLIENT_ID", "GITHUB_CLIENT_SECRET"],
+  "Azure AD": ["AZURE_AD_CLIENT_ID", "AZURE_AD_CLIENT_SECRET", "AZURE_AD_TENANT_ID"],
+  OIDC: ["OIDC_ISSUER", "OIDC_CLIENT_ID", "OIDC_CLIENT_SECRET"],
+} as const;
+
+// Azure AD "tenants" that accept accounts from any directory. Those
+// directories vouch for their own users' emails, so sign-ins are limited to
+// ours
+const MULTI_TENANT_AZURE_AD_TENANTS = ["common", "organizations", "consumers"];
+
+const ServerEnvSchema = z
+  .object({
+    NODE_ENV: z.enum(["development", "production", "test"]).default("development"),
+    NEXTAUTH_SECRET: z.preprocess(
+      unsetIfEmpty,
+      z.string({ error: "is required (generate one with `openssl rand -base64 32`)" })
+    ),
+    NEXTAUTH_URL: optionalUrl(),
+    // Backend URL as seen from the Next.js server; defaults to NEXT_PUBLIC_API_URL
+    BACKEND_URL: optionalUrl(),
+    // Refresh access tokens this long before they expire
+    AUTH_REFRESH_MARGIN_SECONDS: integerWithDefault(60),
+    // Tolerated difference between our clock and the backend's
+    AUTH_CLOCK_SKEW_SECONDS: integerWithDefault(30),
+    // Sign out after this long without user activity; 0 (the default)
+    // disables it
+    AUTH_IDLE_TIMEOUT_SECONDS: integerWithDefault(0),
+    // Sign out this long after signing in, however active the user is;
+    // longer when "Remember me" was checked. Defaults to the 7 days sessions
+    // lasted before these limits existed
+    AUTH_SESSION_MAX_AGE_SECONDS: integerWithDefault(7 * 24 * 60 * 60),
+    AUTH_REMEMBER_ME_MAX_AGE_SECONDS: integerWithDefault(7 * 24 * 60 * 60),
+    // Show the "still there?" warning this long before the idle timeout
+    AUTH_IDLE_WARNING_SECONDS: integerWithDefault(60),
+    // Backend access token verification: an HS256 shared secret, or a JWKS
+    // endpoint for RS256/ES256 keys. Exactly one is required
+    AUTH_JWT_SECRET: optionalString(),
+    AUTH_JWKS_URL: optionalUrl(),
+    AUTH_JWT_ISSUER: optionalString(),
+    AUTH_JWT_AUDIENCE: optionalString(),
+    // External login providers; each is enabled when all of its variables
+    // are set (see OAUTH_PROVIDER_VARIABLES)
+    GOOGLE_CLIENT_ID: optionalString(),
+    GOOGLE_CLIENT_SECRET: optionalString(),
+    GITHUB_CLIENT_ID: optionalString(),
+    GITHUB_CLIENT_SECRET: optionalString(),
+    AZURE_AD_CLIENT_ID: optionalString(),
+    AZURE_AD_CLIENT_SECRET: optionalString(),
+    // Directory (tenant) id or domain the accounts must belong to
+    AZURE_AD_TENANT_ID: optionalString(),
+    // Any OpenID Connect provider with discovery at
+    // <OIDC_ISSUER>/.well-known/openid-configuration
+    OIDC_ISSUER: optionalUrl(),
+    OIDC_CLIENT_ID: optionalString(),
+    OIDC_CLIENT_SECRET: optionalString(),
+    // Shown on the sign-in button, e.g. "Keycloak"
+    OIDC_NAME: optionalString(),
+  })
+  .superRefine((env, ctx) => {
+    if (!env.AUTH_JWT_SECRET === !env.AUTH_JWKS_URL) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["AUTH_JWT_SECRET"],
+        message: env.AUTH_JWT_SECRET
+          ? "and AUTH_JWKS_URL are mutually exclusive"
+          : "or AUTH_JWKS_URL is required to verify backend access tokens",
+      });
+    }
+    if (env.AUTH_SESSION_MAX_AGE_SECONDS === 0) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["AUTH_SESSION_MAX_AGE_SECONDS"],
+        message: "must be greater than 0",
+      });
+    }
+    if (env.AUTH_REMEMBER_ME_MAX_AGE_SECONDS < env.AUTH_SESSION_MAX_AGE_SECONDS) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["AUTH_REMEMBER_ME_MAX_AGE_SECONDS"],
+        message: "must not be shorter than AUTH_SESSION_MAX_AGE_SECONDS",
+      });
+    }
+    if (
+      env.AUTH_IDLE_TIMEOUT_SECONDS > 0 &&
+      env.AUTH_IDLE_WARNING_SECONDS >= env.AUTH_IDLE_TIMEOUT_SECONDS
+    ) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["AUTH_IDLE_WARNING_SECONDS"],
+        message: "must be shorter than AUTH_IDLE_TIMEOUT_SECONDS",
+      });
+    }
+    if (
+      env.AZURE_AD_TENANT_ID &&
+      MULTI_TENANT_AZURE_AD_TENANTS.includes(env.AZURE_AD_TENANT_ID.toLowerCase())
+    ) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["AZURE_AD_TENANT_ID"],
+        message: "must name a single directory (tenant id or domain), not a multi-tenant endpoint",
+      });
+    }
+    for (const [provider, names] of Object.entries(OAUTH_PROVIDER_VARIABLES)) {
+      if (!names.some((name) => env[name])) {
+        continue;
+      }
+      for (const name of names.filter((name) => !env[name])) {
+        ctx.addIssue({
+          code: "custom",
+          path: [name],
+          message: `is required when the other ${provider} OAuth variables are set`,
+        });
+      }
+    }
+  });
+
+const env = parseEnv(ServerEnvSchema, process.env);
+
+export const serverConfig = {
+  isDevelopment: env.NODE_ENV === "development",
+  nextAuthSecret: env.NEXTAUTH_SECRET,
+  nextAuthUrl: env.NEXTAUTH_URL,
+  backendUrl: env.BACKEND_URL ?? publicConfig.apiUrl,
+  auth: {
+    refreshMarginSeconds: env.AUTH_REFRESH_MARGIN_SECONDS,
+    clockSkewSeconds: env.AUTH_CLOCK_SKEW_SECONDS,
+    jwtSecret: env.AUTH_JWT_SECRET,
+    jwksUrl: env.AUTH_JWKS_URL,
+    issuer: env.AUTH_JWT_ISSUER,
+    audience: env.AUTH_JWT_AUDIENCE,
+  },
+  session: {
+    idleTimeoutSeconds: env.AUTH_IDLE_TIMEOUT_SECONDS,
+    maxAgeSeconds: env.AUTH_SESSION_MAX_AGE_SECONDS,
+    rememberMeMaxAgeSeconds: env.AUTH_REMEMBER_ME_MAX_AGE_SECONDS,
+    idleWarningSeconds: env.AUTH_IDLE_WARNING_SECONDS,
+  },
+  // Each is null when that provider isn't configured
+  oauth: {
+    google:
+      env.GOOGLE_CLIENT_ID && env.GOOGLE_CLIENT_SECRET
+        ? { clientId: env.GOOGLE_CLIENT_ID, clientSecret: env.GOOGLE_CLIENT_SECRET }
+        : null,
+    github:
+      env.GITHUB_CLIENT_ID && env.GITHUB_CLIENT_SECRET
+        ? { clientId: env.GITHUB_CLIENT_ID, clientSecret: env.GITHUB_CLIENT_SECRET }
+        : null,
+    azureAd:
+      env.AZURE_AD_CLIENT_ID && env.AZURE_AD_CLIENT_SECRET && env.AZURE_AD_TENANT_ID
+        ? {
+            clientId: env.AZURE_AD_CLIENT_ID,
+            clientSecret: env.AZURE_AD_CLIENT_SECRET,
+            tenantId: env.AZURE_AD_TENANT_ID,
+          }
+        : null,
+    oidc:
+      env.OIDC_ISSUER && env.OIDC_CLIENT_ID && env.OIDC_CLIENT_SECRET
+        ? {
+            issuer: env.OIDC_ISSUER.replace(/\/+$/, ""),
+            clientId: env.OIDC_CLIENT_ID,
+            clientSecret: env.OIDC_CLIENT_SECRET,
+            name: env.OIDC_NAME ?? "SSO",
+          }
+        : null,
+  },
+} as const;
+
+export type ServerConfig = typeof serverConfig;
@@ -0,0 +1,93 @@
+// Interceptor pipeline for the API client. Each chain runs its handlers in
+// registration order; registering a name that already exists replaces that
+// handler in place, so built-ins can be swapped without reordering.
+import type { ApiError } from "@/lib/api-errors";
+
+export interface RequestContext {
+  endpoint: string;
+  url: string;
+  init: Omit<RequestInit, "headers"> & { headers: Record<string, string> };
+  // Token the client holds when the request starts
+  accessToken: string | null;
+}
+
+export interface ResponseContext extends RequestContext {
+  response: Response;
+}
+
+// Runs before fetch; may rewrite the URL, headers or body
+export type RequestInterceptor = (
+  context: RequestContext
+) => RequestContext | Promise<RequestContext>;
+
+// Runs on the parsed JSON body of a successful response
+export type ResponseInterceptor = (
+  data: unknown,
+  context: ResponseContext
+) => unknown | Promise<unknown>;
+
+// Runs on every failure before it is thrown; returns the error to throw
+export type ErrorInterceptor = (
+  error: ApiError,
+  context: RequestContext
+) => ApiError | Promise<ApiError>;
+
+export class InterceptorChain<Handler> {
+  private handlers: { name: string; handler: Handler }[] = [];
+
+  // Append a handler, or replace the one registered under the same name
+  use(name: string, handler: Handler): () => void {
+    const existing = this.handlers.find((entry) => entry.name === name);
+    if (existing) {
+      existing.handler = handler;
+    } else {
+      this.handlers.push({ name, handler });
+    }
+    return () => this.eject(name);
+  }
+
+  eject(name: string): void {
+    this.handlers = this.handlers.filter((entry) => entry.name !== name);
+  }
+
+  has(name: string): boolean {
+    return this.handlers.some((entry) => entry.name === name);
+  }
+
+  names(): string[] {
+    return this.handlers.map((entry) => entry.name);
+  }
+
+  list(): Handler[] {
+    return this.handlers.map((entry) => entry.handler);
+  }
+}
+
+export const AUTH_HEADER_INTERCEPTOR = "auth-header";
+export const UNWRAP_DATA_INTERCEPTOR = "unwrap-data";
+
+// Adds `Authorization: Bearer <token>` when the client holds a token
+export const authHeaderInterceptor: RequestInterceptor = (context) => {
+  if (!context.accessToken) {
+    return context;
+  }
+  return {
+    ...context,
+    init: {
+      ...context.init,
+      headers: {
+        ...context.init.headers,
+        Authorization: `Bearer ${context.accessToken}`,
+      },
+    },
+  };
+};
+
+// Unwraps the backend's `{ data: ... }` envelope
+export const unwrapDataInterceptor: ResponseInterceptor = (data) => {
+  if (typeof data === "object" && data !== null && "data" in data) {
+    const inner = (data as { data: unknown }).data;
+    return inner ? inner : data;
+  }
+  return data;
+};
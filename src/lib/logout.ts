@@ -0,0 +1,47 @@
+// Client-side logout. NextAuth's signOut clears the session cookie and its
+// `events.signOut` revokes the refresh token on the backend; this adds the
+// "all devices" revoke and clears what this tab and the others still hold.
+import { signOut } from "next-auth/react";
+import { api, TokenManager } from "@/lib/api";
+import { isReauthRequiredError } from "@/lib/api-errors";
+import { queryCache } from "@/lib/query-cache";
+import { broadcastSessionEvent } from "@/lib/session-sync";
+
+export interface LogoutOptions {
+  // Also revoke the sessions of every other device
+  allDevices?: boolean;
+}
+
+export interface LogoutResult {
+  // False when revoking the other devices failed (backend unreachable);
+  // this device is signed out regardless
+  allDevicesRevoked: boolean;
+}
+
+// Signs out without navigating; callers route afterwards so they can still
+// show a toast about the result. Revoking every device needs a recent
+// credential check: without one this throws REAUTH_REQUIRED and nothing is
+// signed out, so the caller can confirm and retry (see useReauth)
+export async function logout(options: LogoutOptions = {}): Promise<LogoutResult> {
+  const { allDevices = false } = options;
+  let allDevicesRevoked = !allDevices;
+
+  if (allDevices) {
+    try {
+      await api.logoutAllDevices({ timeout: 5000 });
+      allDevicesRevoked = true;
+    } catch (error) {
+      if (isReauthRequiredError(error)) {
+        throw error;
+      }
+      console.error("Failed to log out of all devices:", error);
+    }
+  }
+
+  TokenManager.clearTokens();
+  queryCache.clear();
+  broadcastSessionEvent({ type: "signed-out" });
+  await signOut({ redirect: false });
+
+  return { allDevicesRevoked };
+}
@@ -0,0 +1,62 @@
+// Remembers in this browser that a sign-in link was requested here. The
+// landing page uses it to tell a click on the same device (sign in right
+// away, back to where the user was) from one on another device (ask first).
+// Only a link for the same email, opened while it is still valid, counts:
+// someone else's link must not sign this browser into their account
+const STORAGE_KEY = "magic_link_request";
+
+// How long the backend's sign-in links stay valid (ms)
+const MAGIC_LINK_TTL = 10 * 60 * 1000;
+
+export interface MagicLinkRequestState {
+  email: string;
+  // Same-site path to open after signing in
+  callbackUrl: string;
+  rememberMe: boolean;
+}
+
+export function rememberMagicLinkRequest(state: MagicLinkRequestState) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...state, requestedAt: Date.now() }));
+  } catch {
+    // Storage disabled: the link still works, as on another device
+  }
+}
+
+// The request made from this browser, if its link can still be valid
+export function readMagicLinkRequest(): MagicLinkRequestState | null {
+  try {
+    const state = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null");
+    if (
+      !state ||
+      typeof state.email !== "string" ||
+      typeof state.requestedAt !== "number" ||
+      Date.now() - state.requestedAt > MAGIC_LINK_TTL
+    ) {
+      return null;
+    }
+    const callbackUrl = String(state.callbackUrl ?? "");
+    return {
+      email: state.email,
+      // Only same-site paths, so a tampered entry can't redirect elsewhere
+      callbackUrl:
+        callbackUrl.startsWith("/") && !callbackUrl.startsWith("//") ? callbackUrl : "/",
+      rememberMe: state.rememberMe !== false,
+    };
+  } catch {
+    return null;
+  }
+}
+
+// Whether a link that signs into `email` is the one requested here
+export function isRequestedEmail(request: MagicLinkRequestState, email: string) {
+  return request.email.trim().toLowerCase() === email.trim().toLowerCase();
+}
+
+export function clearMagicLinkRequest() {
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Nothing stored
+  }
+}
@@ -0,0 +1,30 @@
+// Connecting a provider from the settings page. The callback of that
+// provider sign-in must link it to the signed-in user rather than sign in
+// with it, so the connect token rides along in a short-lived cookie
+export const OAUTH_CONNECT_COOKIE = "auth.oauth-connect";
+
+// Long enough to get through the provider's login and consent screens
+const MAX_AGE_SECONDS = 10 * 60;
+
+export interface OAuthConnectIntent {
+  provider: string;
+  connectToken: string;
+}
+
+// Record the intent before leaving for the provider
+export function setOAuthConnectIntent({ provider, connectToken }: OAuthConnectIntent) {
+  const secure = window.location.protocol === "https:" ? "; Secure" : "";
+  document.cookie =
+    `${OAUTH_CONNECT_COOKIE}=${encodeURIComponent(`${provider}:${connectToken}`)}; Path=/; ` +
+    `Max-Age=${MAX_AGE_SECONDS}; SameSite=Lax${secure}`;
+}
+
+// Only the provider it was made for, so another sign-in that follows an
+// abandoned connect (e.g. re-auth) isn't mistaken for it
+export function parseOAuthConnectIntent(value: string | undefined): OAuthConnectIntent | null {
+  const separator = value?.indexOf(":") ?? -1;
+  if (!value || separator <= 0 || separator === value.length - 1) {
+    return null;
+  }
+  return { provider: value.slice(0, separator), connectToken: value.slice(separator + 1) };
+}
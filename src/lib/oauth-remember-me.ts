@@ -0,0 +1,18 @@
+// "Remember me" for sign-in through an external provider. The credentials
+// providers post it with the form; an OAuth callback is the provider's
+// redirect, so the choice rides along in a short-lived cookie instead
+export const OAUTH_REMEMBER_ME_COOKIE = "auth.oauth-remember-me";
+
+// Long enough to get through the provider's login and consent screens
+const MAX_AGE_SECONDS = 10 * 60;
+
+// Record the choice before leaving for the provider; undefined clears a
+// previous one, so the callback keeps the current session's setting
+export function setOAuthRememberMe(rememberMe: boolean | undefined) {
+  const secure = window.location.protocol === "https:" ? "; Secure" : "";
+  document.cookie =
+    rememberMe === undefined
+      ? `${OAUTH_REMEMBER_ME_COOKIE}=; Path=/; Max-Age=0; SameSite=Lax${secure}`
+      : `${OAUTH_REMEMBER_ME_COOKIE}=${rememberMe ? "1" : "0"}; Path=/; ` +
+        `Max-Age=${MAX_AGE_SECONDS}; SameSite=Lax${secure}`;
+}
@@ -0,0 +1,9 @@
+// Helpers around @simplewebauthn/browser shared by sign-in and settings
+import { WebAuthnError } from "@simplewebauthn/browser";
+
+// The user closed the browser prompt, or a newer ceremony replaced this one.
+// Nothing to report in either case
+export const isPasskeyCancelled = (error: unknown): boolean =>
+  (error instanceof WebAuthnError && error.code === "ERROR_CEREMONY_ABORTED") ||
+  (error instanceof Error &&
+    (error.name === "NotAllowedError" || error.name === "AbortError"));
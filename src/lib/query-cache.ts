@@ -0,0 +1,203 @@
+// Cache behind useApiQuery/useApiMutation. Entries are keyed by endpoint and
+// params; concurrent fetches of the same key share one request. Entries no
+// component subscribes to are dropped after GC_TIME.
+
+// [endpoint, params?], e.g. ["/api/v1/auth/me"] or ["/sessions", { page: 2 }]
+export type QueryKey = readonly [endpoint: string, params?: unknown];
+
+export type QueryStatus = "idle" | "loading" | "success" | "error";
+
+export interface QueryState<T = unknown> {
+  data?: T;
+  error?: unknown;
+  status: QueryStatus;
+  // A request for this key is in flight (initial load or revalidation)
+  isFetching: boolean;
+  // Time of the last successful fetch (ms), 0 if never
+  updatedAt: number;
+  // Marked stale by an invalidation; refetched by mounted queries
+  isInvalidated: boolean;
+}
+
+interface CacheEntry {
+  key: QueryKey;
+  state: QueryState;
+  promise?: Promise<unknown>;
+  controller?: AbortController;
+  listeners: Set<() => void>;
+  gcTimer?: ReturnType<typeof setTimeout>;
+}
+
+// How long unused data is kept for a component that mounts again
+const GC_TIME = 5 * 60_000;
+
+const INITIAL_STATE: QueryState = {
+  status: "idle",
+  isFetching: false,
+  updatedAt: 0,
+  isInvalidated: false,
+};
+
+// JSON with sorted object keys, so { a, b } and { b, a } hash the same
+export function hashQueryKey(key: QueryKey): string {
+  return JSON.stringify(key, (_name, value) =>
+    value && typeof value === "object" && !Array.isArray(value)
+      ? Object.fromEntries(
+          Object.entries(value).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+        )
+      : value
+  );
+}
+
+// `filter` matches `key` when the endpoints are equal and, if `filter` has
+// params, the params are equal too
+function matchesKey(filter: QueryKey, key: QueryKey): boolean {
+  if (filter[0] !== key[0]) {
+    return false;
+  }
+  return filter.length < 2 || hashQueryKey(filter) === hashQueryKey(key);
+}
+
+export class QueryCache {
+  private entries = new Map<string, CacheEntry>();
+
+  private entry(key: QueryKey): CacheEntry {
+    const hash = hashQueryKey(key);
+    let entry = this.entries.get(hash);
+    if (!entry) {
+      entry = { key, state: INITIAL_STATE, listeners: new Set() };
+      this.entries.set(hash, entry);
+      this.scheduleGc(hash, entry);
+    }
+    return entry;
+  }
+
+  // Drop `entry` once it has had no subscribers for GC_TIME. A request in
+  // flight postpones it
+  private scheduleGc(hash: string, entry: CacheEntry) {
+    clearTimeout(entry.gcTimer);
+    entry.gcTimer = setTimeout(() => {
+      entry.gcTimer = undefined;
+      if (entry.listeners.size > 0) {
+        return;
+      }
+      if (entry.promise) {
+        this.scheduleGc(hash, entry);
+        return;
+      }
+      if (this.entries.get(hash) === entry) {
+        this.entries.delete(hash);
+      }
+    }, GC_TIME);
+  }
+
+  private setState(entry: CacheEntry, patch: Partial<QueryState>) {
+    entry.state = { ...entry.state, ...patch };
+    entry.listeners.forEach((listener) => listener());
+  }
+
+  getState<T>(key: QueryKey): QueryState<T> {
+    return (this.entries.get(hashQueryKey(key))?.state ?? INITIAL_STATE) as QueryState<T>;
+  }
+
+  subscribe(key: QueryKey, listener: () => void): () => void {
+    const hash = hashQueryKey(key);
+    const entry = this.entry(key);
+    clearTimeout(entry.gcTimer);
+    entry.gcTimer = undefined;
+    entry.listeners.add(listener);
+    return () => {
+      entry.listeners.delete(listener);
+      if (entry.listeners.size === 0) {
+        this.scheduleGc(hash, entry);
+      }
+    };
+  }
+
+  // Whether data for `key` is missing, invalidated or older than `staleTime`
+  isStale(key: QueryKey, staleTime: number): boolean {
+    const { updatedAt, isInvalidated } = this.getState(key);
+    return isInvalidated || updatedAt === 0 || Date.now() - updatedAt > staleTime;
+  }
+
+  // Fetch `key`, joining the request already in flight if there is one.
+  // Cached data stays visible while it revalidates
+  fetch<T>(key: QueryKey, fetcher: (signal: AbortSignal) => Promise<T>): Promise<T> {
+    const entry = this.entry(key);
+    if (entry.promise) {
+      return entry.promise as Promise<T>;
+    }
+
+    const controller = new AbortController();
+    const promise = fetcher(controller.signal)
+      .then((data) => {
+        if (entry.promise === promise) {
+          this.setState(entry, {
+            data,
+            error: undefined,
+            status: "success",
+            isFetching: false,
+            updatedAt: Date.now(),
+            isInvalidated: false,
+          });
+        }
+        return data;
+      })
+      .catch((error) => {
+        if (entry.promise === promise) {
+          this.setState(entry, {
+            error,
+            status: "error",
+            isFetching: false,
+            isInvalidated: false,
+          });
+        }
+        throw error;
+      })
+      .finally(() => {
+        if (entry.promise === promise) {
+          entry.promise = undefined;
+          entry.controller = undefined;
+        }
+      });
+
+    entry.promise = promise;
+    entry.controller = controller;
+    this.setState(entry, {
+      isFetching: true,
+      status: entry.state.status === "success" ? "success" : "loading",
+    });
+    return promise;
+  }
+
+  setData<T>(key: QueryKey, data: T) {
+    this.setState(this.entry(key), {
+      data,
+      error: undefined,
+      status: "success",
+      updatedAt: Date.now(),
+      isInvalidated: false,
+    });
+  }
+
+  // Mark matching entries (all when no filter) stale; mounted queries refetch
+  invalidate(filter?: QueryKey) {
+    this.entries.forEach((entry) => {
+      if (!filter || matchesKey(filter, entry.key)) {
+        this.setState(entry, { isInvalidated: true });
+      }
+    });
+  }
+
+  // Drop all cached data and cancel in-flight requests (e.g. on sign-out)
+  clear() {
+    this.entries.forEach((entry) => {
+      entry.controller?.abort();
+      entry.promise = undefined;
+      entry.controller = undefined;
+      this.setState(entry, INITIAL_STATE);
+    });
+  }
+}
+
+export const queryCache = new QueryCache();
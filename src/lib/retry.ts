@@ -0,0 +1,83 @@
+// Retry policy helpers for the API client
+import {
+  ApiAbortError,
+  ApiError,
+  isApiError,
+  isNetworkError,
+  isTimeoutError,
+} from "@/lib/api-errors";
+
+export interface RetryPolicy {
+  // Attempts after the first one
+  retries: number;
+  // Backoff for the first retry (ms), doubled on every attempt
+  baseDelay: number;
+  // Upper bound for a single wait (ms); a longer Retry-After stops retrying
+  maxDelay: number;
+  // Statuses worth retrying; network errors and timeouts always are
+  retryOnStatus: number[];
+  // Mark a non-idempotent request (e.g. POST) as safe to repeat
+  idempotent: boolean;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: 3,
+  baseDelay: 300,
+  maxDelay: 10000,
+  retryOnStatus: [408, 429, 502, 503, 504],
+  idempotent: false,
+};
+
+// Methods that can be repeated without changing the outcome
+const IDEMPOTENT_METHODS = ["GET", "HEAD", "OPTIONS", "PUT", "DELETE"];
+
+export const isIdempotentMethod = (method = "GET") =>
+  IDEMPOTENT_METHODS.includes(method.toUpperCase());
+
+// Delay before retry number `attempt` (0-based), or null to stop retrying
+export function getRetryDelay(
+  policy: RetryPolicy,
+  error: unknown,
+  attempt: number
+): number | null {
+  if (attempt >= policy.retries || !isApiError(error) || !isRetryable(policy, error)) {
+    return null;
+  }
+
+  // The server told us how long to wait: never retry sooner than that
+  if (error.retryAfter !== undefined) {
+    const retryAfter = error.retryAfter * 1000;
+    return retryAfter <= policy.maxDelay ? retryAfter : null;
+  }
+
+  // Exponential backoff with full jitter
+  const ceiling = Math.min(policy.maxDelay, policy.baseDelay * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+}
+
+function isRetryable(policy: RetryPolicy, error: ApiError): boolean {
+  return (
+    isNetworkError(error) ||
+    isTimeoutError(error) ||
+    policy.retryOnStatus.includes(error.status)
+  );
+}
+
+// Wait `ms`, rejecting early if the caller aborts
+export function sleep(ms: number, signal: AbortSignal | undefined, endpoint: string) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new ApiAbortError(endpoint));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new ApiAbortError(endpoint));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
@@ -0,0 +1,304 @@
+// Runtime schemas for the /api/v1/auth contract. The types in
+// `@/types/auth` are inferred from these, so both always agree.
+import { z } from "zod";
+import type {
+  AuthenticationResponseJSON,
+  PublicKeyCredentialCreationOptionsJSON,
+  PublicKeyCredentialRequestOptionsJSON,
+  RegistrationResponseJSON,
+} from "@simplewebauthn/browser";
+
+// Optional fields in responses may come back as null from the backend
+export const UserSchema = z.object({
+  id: z.string(),
+  email: z.string(),
+  username: z.string().nullish(),
+  phone: z.string().nullish(),
+  full_name: z.string(),
+  user_type: z.string(),
+  profile_photo: z.string().nullish(),
+  date_of_birth: z.string().nullish(),
+  gender: z.string().nullish(),
+  is_active: z.boolean().nullish(),
+  is_verified: z.boolean(),
+  last_login: z.string().nullish(),
+  login_type: z.string(),
+  created_at: z.string(),
+  two_factor_enabled: z.boolean().nullish(),
+});
+
+// Tokens issued on sign-in. The browser talks to the backend through
+// /api/proxy, which replaces them with a sealed `session_ticket` that only
+// the NextAuth credentials provider can open
+const IssuedTokensShape = {
+  access_token: z.string().optional(),
+  refresh_token: z.string().optional(),
+  session_ticket: z.string().optional(),
+  expires_in: z.number(),
+};
+
+export const AuthResponseSchema = z.object({
+  user: UserSchema,
+  ...IssuedTokensShape,
+  requires_verification: z.boolean().nullish(),
+  verification_token: z.string().nullish(),
+});
+
+// Sign-in answers the server reads straight from the backend (NextAuth
+// callbacks): both tokens must be there
+export const TokenResponseSchema = AuthResponseSchema.extend({
+  access_token: z.string().min(1),
+  refresh_token: z.string().min(1),
+});
+
+// Backends that don't rotate refresh tokens leave `refresh_token` out; the
+// current one stays valid then
+export const RefreshTokenResponseSchema = AuthResponseSchema.extend({
+  access_token: z.string().min(1),
+});
+
+export const CurrentUserResponseSchema = z.object({
+  user: UserSchema,
+});
+
+export const RegisterRequestSchema = z.object({
+  full_name: z.string().min(1),
+  email: z.email(),
+  phone: z.string().optional(),
+  password: z.string().min(1),
+  user_type: z.string().optional(),
+  gender: z.string().optional(),
+  date_of_birth: z.string().optional(),
+});
+
+export const LoginRequestSchema = z.object({
+  email: z.email(),
+  password: z.string().min(1),
+});
+
+export const OTPVerifyRequestSchema = z.object({
+  email: z.email(),
+  otp_code: z.string().regex(/^\d{6}$/, "OTP must be 6 digits"),
+});
+
+export const ResendOTPRequestSchema = z.object({
+  email: z.email(),
+});
+
+export const RegisterResponseSchema = z.object({
+  message: z.string(),
+  user: UserSchema,
+  requires_verification: z.boolean().nullish(),
+  verification_token: z.string().nullish(),
+});
+
+export const OTPVerifyResponseSchema = z.object({
+  user: UserSchema,
+  ...IssuedTokensShape,
+});
+
+export const MessageResponseSchema = z.object({
+  message: z.string(),
+});
+
+export const ResendOTPResponseSchema = MessageResponseSchema;
+
+export const ResetPasswordRequestSchema = z.object({
+  email: z.email(),
+});
+
+export const VerifyResetPasswordRequestSchema = z.object({
+  email: z.email(),
+  otp_code: z.string().min(1),
+  new_password: z.string().min(1),
+});
+
+export const ResetPasswordResponseSchema = MessageResponseSchema;
+
+export const VerifyResetPasswordResponseSchema = MessageResponseSchema;
+
+export const ResetPasswordWithTokenRequestSchema = z.object({
+  token: z.string().min(1),
+  newPassword: z.string().min(1),
+});
+
+// Sign-in through an external provider, whatever it is: `provider` is the
+// NextAuth provider id ("google", "github", "azure-ad", "oidc")
+export const OAuthRequestSchema = z.object({
+  provider: z.string().min(1),
+  provider_account_id: z.string().min(1),
+  email: z.email(),
+  name: z.string(),
+  avatar: z.string(),
+});
+
+// Provider sign-in that matched a password account: the `link_token` from the
+// conflict error plus the account's password
+export const LinkAccountRequestSchema = z.object({
+  link_token: z.string().min(1),
+  password: z.string().min(1),
+});
+
+// External login connected to the current user
+export const ConnectedAccountSchema = z.object({
+  provider: z.string(),
+  email: z.string().nullish(),
+  linked_at: z.string().nullish(),
+});
+
+export const ConnectedAccountsResponseSchema = z.object({
+  has_password: z.boolean(),
+  identities: z.array(ConnectedAccountSchema),
+});
+
+// Link a provider sign-in to the signed-in user, who needs no password
+export const ConnectAccountRequestSchema = z.object({
+  link_token: z.string().min(1),
+});
+
+export const ConnectAccountResponseSchema = MessageResponseSchema;
+
+// Issued to the signed-in user before leaving for the provider; redeemed by
+// the app server with the provider account it signed in to
+export const ConnectTokenResponseSchema = z.object({
+  connect_token: z.string().min(1),
+});
+
+export const OAuthConnectRequestSchema = OAuthRequestSchema.pick({
+  provider: true,
+  provider_account_id: true,
+  email: true,
+}).extend({ connect_token: z.string().min(1) });
+
+export const OAuthConnectResponseSchema = MessageResponseSchema;
+
+export const UnlinkAccountResponseSchema = MessageResponseSchema;
+
+// First password for an account that only signed in with a provider
+export const SetPasswordRequestSchema = z.object({
+  new_password: z.string().min(1),
+});
+
+export const SetPasswordResponseSchema = MessageResponseSchema;
+
+export const RefreshTokenRequestSchema = z.object({
+  refresh_token: z.string().min(1),
+});
+
+export const LogoutRequestSchema = z.object({
+  refresh_token: z.string().min(1),
+});
+
+export const LogoutResponseSchema = MessageResponseSchema;
+
+// A signed-in device of the current user
+export const ActiveSessionSchema = z.object({
+  id: z.string(),
+  device: z.string().nullish(),
+  browser: z.string().nullish(),
+  os: z.string().nullish(),
+  ip_address: z.string().nullish(),
+  last_login: z.string(),
+  login_type: z.string(),
+  created_at: z.string().nullish(),
+  is_current: z.boolean(),
+});
+
+export const ActiveSessionsResponseSchema = z.object({
+  sessions: z.array(ActiveSessionSchema),
+});
+
+export const RevokeSessionResponseSchema = MessageResponseSchema;
+
+// Authenticator app (TOTP) two-factor authentication
+export const TwoFactorSetupResponseSchema = z.object({
+  secret: z.string(),
+  // otpauth:// URI encoded in the enrollment QR code
+  otpauth_url: z.string(),
+});
+
+export const TwoFactorCodeRequestSchema = z.object({
+  code: z.string().regex(/^\d{6}$/, "Code must be 6 digits"),
+});
+
+export const TwoFactorEnableResponseSchema = z.object({
+  message: z.string(),
+  backup_codes: z.array(z.string()),
+});
+
+// Disabling accepts a backup code too
+export const TwoFactorDisableRequestSchema = z.object({
+  code: z.string().min(1),
+});
+
+export const TwoFactorDisableResponseSchema = MessageResponseSchema;
+
+// Second login step: the challenge token from the TWO_FACTOR_REQUIRED error
+// plus an authenticator or backup code
+export const TwoFactorVerifyRequestSchema = z.object({
+  two_factor_token: z.string().min(1),
+  code: z.string().min(1),
+});
+
+// Passkeys (WebAuthn). Ceremony options and credentials are handed to
+// @simplewebauthn/browser and the backend as they are; only their outer
+// shape is checked here
+const webAuthnJson = <T>(...fields: string[]) =>
+  z.custom<T>(
+    (value) =>
+      typeof value === "object" &&
+      value !== null &&
+      fields.every((field) => field in value)
+  );
+
+export const PasskeySchema = z.object({
+  // Credential id (base64url)
+  id: z.string(),
+  name: z.string(),
+  created_at: z.string(),
+  last_used_at: z.string().nullish(),
+});
+
+export const PasskeysResponseSchema = z.object({
+  passkeys: z.array(PasskeySchema),
+});
+
+export const PasskeyRegistrationOptionsSchema =
+  webAuthnJson<PublicKeyCredentialCreationOptionsJSON>("challenge", "rp", "user");
+
+export const PasskeyRegistrationRequestSchema = z.object({
+  credential: webAuthnJson<RegistrationResponseJSON>("id", "response"),
+  name: z.string().min(1).max(64).optional(),
+});
+
+export const PasskeyRegistrationResponseSchema = z.object({
+  passkey: PasskeySchema,
+});
+
+export const DeletePasskeyResponseSchema = MessageResponseSchema;
+
+// Sign-in options plus the token that identifies their challenge
+export const PasskeyLoginOptionsResponseSchema = z.object({
+  challenge_token: z.string(),
+  options: webAuthnJson<PublicKeyCredentialRequestOptionsJSON>("challenge"),
+});
+
+export const PasskeyLoginRequestSchema = z.object({
+  challenge_token: z.string().min(1),
+  credential: webAuthnJson<AuthenticationResponseJSON>("id", "response"),
+});
+
+// One-time sign-in link sent by email
+export const MagicLinkRequestSchema = z.object({
+  email: z.email(),
+});
+
+export const MagicLinkResponseSchema = MessageResponseSchema;
+
+export const MagicLinkVerifyRequestSchema = z.object({
+  token: z.string().min(1),
+});
+
+export const VerifyEmailRequestSchema = z.object({
+  token: z.string().min(1),
+});
@@ -0,0 +1,78 @@
+// Verification of backend-issued access tokens before a session is minted
+// from them: signature (HS256 shared secret or JWKS), issuer, audience and
+// expiry. Keys are created once per process; a JWKS is fetched lazily and
+// cached by jose, and refetched when a token names an unknown key id.
+import {
+  createRemoteJWKSet,
+  jwtVerify,
+  type JWTPayload,
+  type JWTVerifyGetKey,
+  type JWTVerifyOptions,
+} from "jose";
+import { serverConfig } from "@/lib/config/server";
+
+const JWKS_CACHE_MAX_AGE = 10 * 60 * 1000;
+// Minimum time between JWKS refetches triggered by unknown key ids
+const JWKS_COOLDOWN = 30 * 1000;
+
+export interface AccessTokenClaims extends JWTPayload {
+  userId?: string;
+  email?: string;
+  role?: string;
+}
+
+export class AccessTokenVerificationError extends Error {
+  readonly name = "AccessTokenVerificationError";
+
+  constructor(message: string, readonly cause?: unknown) {
+    super(message);
+  }
+}
+
+// Always a key getter, so jwtVerify takes one form for both key types
+let verificationKey: JWTVerifyGetKey | undefined;
+
+function getVerificationKey(): JWTVerifyGetKey {
+  if (!verificationKey) {
+    const { jwksUrl, jwtSecret } = serverConfig.auth;
+    if (jwksUrl) {
+      verificationKey = createRemoteJWKSet(new URL(jwksUrl), {
+        cacheMaxAge: JWKS_CACHE_MAX_AGE,
+        cooldownDuration: JWKS_COOLDOWN,
+      });
+    } else {
+      const secret = new TextEncoder().encode(jwtSecret);
+      verificationKey = () => secret;
+    }
+  }
+  return verificationKey;
+}
+
+function getVerifyOptions(): JWTVerifyOptions {
+  const { jwksUrl, issuer, audience, clockSkewSeconds } = serverConfig.auth;
+  return {
+    algorithms: jwksUrl ? ["RS256", "ES256"] : ["HS256"],
+    issuer,
+    audience,
+    clockTolerance: clockSkewSeconds,
+    requiredClaims: ["exp"],
+  };
+}
+
+// Claims of a valid access token; throws AccessTokenVerificationError otherwise
+export async function verifyAccessToken(token: string): Promise<AccessTokenClaims> {
+  const key = getVerificationKey();
+  const options = getVerifyOptions();
+  try {
+    const { payload } = await jwtVerify(token, key, options);
+    return payload as AccessTokenClaims;
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new AccessTokenVerificationError(`Access token rejected: ${reason}`, error);
+  }
+}
+
+// User id carried by the token (`sub`, or the backend's `userId` claim)
+export function getTokenUserId(claims: AccessTokenClaims): string | undefined {
+  return claims.sub || claims.userId;
+}
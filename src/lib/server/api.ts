@@ -0,0 +1,78 @@
+// Per-request API clients for server-side code (getServerSideProps, API
+// routes, NextAuth callbacks). Never use the browser `api` singleton on the
+// server: its access token is shared by every request the process handles.
+import type {
+  GetServerSideProps,
+  GetServerSidePropsContext,
+  GetServerSidePropsResult,
+  NextApiRequest,
+} from "next";
+import { getToken, JWT } from "next-auth/jwt";
+import { ApiClient } from "@/lib/api";
+import { serverConfig } from "@/lib/config/server";
+import { getSessionExpiryReason } from "@/lib/server/session-policy";
+
+type ServerRequest = GetServerSidePropsContext["req"] | NextApiRequest;
+
+// A fresh client bound to one user's access token (or none)
+export function createServerApiClient(accessToken?: string | null): ApiClient {
+  const client = new ApiClient(serverConfig.backendUrl);
+  client.setAccessToken(accessToken ?? null);
+  // No refresh handler: refreshed tokens can't be written back to the session
+  // cookie from here, so a 401 surfaces to the caller and the browser
+  // refreshes on its next request
+  return client;
+}
+
+// The request's NextAuth JWT, or null when there is none or it can no
+// longer be used: the refresh failed or the session policy ended it
+export async function getSessionToken(req: ServerRequest): Promise<JWT | null> {
+  const token = await getToken({ req, secret: serverConfig.nextAuthSecret });
+  if (!token?.accessToken || token.error || getSessionExpiryReason(token)) {
+    return null;
+  }
+  return token;
+}
+
+// Client authenticated with the access token stored in the request's NextAuth JWT
+export async function getServerApiClient(
+  req: ServerRequest
+): Promise<{ api: ApiClient; token: JWT | null }> {
+  const token = await getSessionToken(req);
+  return { api: createServerApiClient(token?.accessToken), token };
+}
+
+interface ServerApiOptions {
+  // Redirect to the login page when there is no usable session
+  requireAuth?: boolean;
+}
+
+// getServerSideProps with a per-request API client:
+//
+//   export const getServerSideProps = withServerApi(async (ctx, api) => {
+//     const { user } = await api.getCurrentUser();
+//     return { props: { user } };
+//   }, { requireAuth: true });
+export function withServerApi<P extends { [key: string]: unknown }>(
+  handler: (
+    context: GetServerSidePropsContext,
+    api: ApiClient,
+    token: JWT | null
+  ) => Promise<GetServerSidePropsResult<P>>,
+  options: ServerApiOptions = {}
+): GetServerSideProps<P> {
+  return async (context) => {
+    const { api, token } = await getServerApiClient(context.req);
+
+    if (options.requireAuth && !token) {
+      return {
+        redirect: {
+          destination: `/auth/login?callbackUrl=${encodeURIComponent(context.resolvedUrl)}`,
+          permanent: false,
+        },
+      };
+    }
+
+    return handler(context, api, token);
+  };
+}
@@ -0,0 +1,82 @@
+// Step-up re-authentication: sensitive pages and API routes require the
+// user's credentials to have been checked recently, even inside a valid
+// session. `authTime` on the NextAuth JWT records the last check; it is set
+// on sign-in and by the re-auth dialog.
+import type { GetServerSideProps, NextApiHandler } from "next";
+import type { JWT } from "next-auth/jwt";
+import { ApiErrorCode } from "@/lib/api-errors";
+import { getSessionToken } from "@/lib/server/api";
+
+// Page that asks for the credentials again and then returns to `callbackUrl`
+export const REAUTH_PAGE = "/auth/reauthenticate";
+
+// How recent the check must be for account security changes: sign-in
+// methods, 2FA, passkeys and other devices' sessions
+export const SENSITIVE_ACTION_MAX_AGE_SECONDS = 10 * 60;
+
+export function hasRecentAuth(
+  token: JWT | null,
+  maxAgeSeconds: number,
+  now = Date.now()
+): boolean {
+  return !!token?.authTime && now - token.authTime <= maxAgeSeconds * 1000;
+}
+
+/**
+ * Guard for getServerSideProps and API routes. Pages without a recent
+ * credential check redirect to the re-auth page; API routes answer 403 with
+ * code REAUTH_REQUIRED, so the client can open the re-auth dialog and retry.
+ *
+ *   const recentAuth = requireRecentAuth(5 * 60);
+ *   export const getServerSideProps = recentAuth.page(withServerApi(...));
+ *   export default recentAuth.api(async (req, res) => { ... });
+ */
+export function requireRecentAuth(maxAgeSeconds: number) {
+  return {
+    page<P extends { [key: string]: unknown }>(
+      handler: GetServerSideProps<P>
+    ): GetServerSideProps<P> {
+      return async (context) => {
+        const token = await getSessionToken(context.req);
+        const callbackUrl = encodeURIComponent(context.resolvedUrl);
+
+        if (!token) {
+          return {
+            redirect: { destination: `/auth/login?callbackUrl=${callbackUrl}`, permanent: false },
+          };
+        }
+        if (!hasRecentAuth(token, maxAgeSeconds)) {
+          return {
+            redirect: { destination: `${REAUTH_PAGE}?callbackUrl=${callbackUrl}`, permanent: false },
+          };
+        }
+        return handler(context);
+      };
+    },
+
+    api(handler: NextApiHandler): NextApiHandler {
+      return async (req, res) => {
+        const token = await getSessionToken(req);
+
+        if (!token) {
+          res.status(401).json({
+            success: false,
+            error: { code: "UNAUTHORIZED", message: "Authentication required" },
+          });
+          return;
+        }
+        if (!hasRecentAuth(token, maxAgeSeconds)) {
+          res.status(403).json({
+            success: false,
+            error: {
+              code: ApiErrorCode.ReauthRequired,
+              message: "Please confirm your credentials to continue",
+            },
+          });
+          return;
+        }
+        return handler(req, res);
+      };
+    },
+  };
+}
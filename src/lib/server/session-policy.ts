@@ -0,0 +1,65 @@
+// Idle timeout and absolute lifetime of a NextAuth session. The jwt callback
+// enforces them on every session read; middleware and /api/proxy check them
+// too, since they decode the cookie without running the callback.
+import { serverConfig } from "@/lib/config/server";
+
+export type SessionExpiryReason = "idle" | "max-age";
+
+// Thrown from the jwt callback; NextAuth then clears the session cookie
+export class SessionPolicyError extends Error {
+  readonly name = "SessionPolicyError";
+
+  constructor(readonly reason: SessionExpiryReason) {
+    super(
+      reason === "idle"
+        ? "Session expired after a period of inactivity"
+        : "Session reached its maximum lifetime"
+    );
+  }
+}
+
+// Policy state kept on the JWT; timestamps in ms since the epoch
+export interface SessionPolicyState {
+  signedInAt?: number;
+  lastActivityAt?: number;
+  // "Remember me" was checked: the longer maximum lifetime applies
+  rememberMe?: boolean;
+}
+
+// When the session expires for each reason; `idleExpiresAt` is null when the
+// idle timeout is disabled
+export function getSessionDeadlines(
+  state: SessionPolicyState & { signedInAt: number; lastActivityAt: number }
+): { idleExpiresAt: number | null; maxAgeExpiresAt: number } {
+  const { idleTimeoutSeconds, maxAgeSeconds, rememberMeMaxAgeSeconds } = serverConfig.session;
+  const lifetimeSeconds = state.rememberMe ? rememberMeMaxAgeSeconds : maxAgeSeconds;
+  return {
+    idleExpiresAt: idleTimeoutSeconds
+      ? state.lastActivityAt + idleTimeoutSeconds * 1000
+      : null,
+    maxAgeExpiresAt: state.signedInAt + lifetimeSeconds * 1000,
+  };
+}
+
+// Why the session is no longer valid, or null while it is. Sessions created
+// before the policy existed carry no timestamps; the jwt callback stamps them
+export function getSessionExpiryReason(
+  state: SessionPolicyState,
+  now = Date.now()
+): SessionExpiryReason | null {
+  if (!state.signedInAt || !state.lastActivityAt) {
+    return null;
+  }
+  const { idleExpiresAt, maxAgeExpiresAt } = getSessionDeadlines({
+    ...state,
+    signedInAt: state.signedInAt,
+    lastActivityAt: state.lastActivityAt,
+  });
+  if (now >= maxAgeExpiresAt) {
+    return "max-age";
+  }
+  if (idleExpiresAt !== null && now >= idleExpiresAt) {
+    return "idle";
+  }
+  return null;
+}
@@ -0,0 +1,42 @@
+// Sealed hand-off of backend tokens from /api/proxy to the NextAuth
+// credentials provider. The ticket is encrypted with NEXTAUTH_SECRET and
+// short-lived, so the browser only ever carries an opaque string.
+import { decode, encode } from "next-auth/jwt";
+import { serverConfig } from "@/lib/config/server";
+import type { User } from "@/types/auth";
+
+// Distinct key derivation, so a ticket is never accepted as a session cookie
+const TICKET_SALT = "session-ticket";
+// Long enough to finish signIn("credentials") after the response arrives
+const TICKET_MAX_AGE = 2 * 60;
+
+export interface SessionTicket {
+  accessToken: string;
+  refreshToken: string;
+  expiresIn?: number;
+  user?: User;
+}
+
+export function sealSessionTicket(ticket: SessionTicket): Promise<string> {
+  return encode({
+    token: { ticket },
+    secret: serverConfig.nextAuthSecret,
+    salt: TICKET_SALT,
+    maxAge: TICKET_MAX_AGE,
+  });
+}
+
+// Returns null for tampered, foreign or expired tickets
+export async function openSessionTicket(sealed: string): Promise<SessionTicket | null> {
+  try {
+    const payload = await decode({
+      token: sealed,
+      secret: serverConfig.nextAuthSecret,
+      salt: TICKET_SALT,
+    });
+    const ticket = payload?.ticket as SessionTicket | undefined;
+    return ticket?.accessToken ? ticket : null;
+  } catch {
+    return null;
+  }
+}
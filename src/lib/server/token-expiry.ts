@@ -0,0 +1,53 @@
+// When a backend access token expires and when to refresh it. Expiry comes
+// from the token itself: `expires_in` from the response that issued it
+// (relative, so immune to clock differences) or else the JWT `exp` claim.
+import { serverConfig } from "@/lib/config/server";
+
+// Used only when the token carries no expiry information at all
+const FALLBACK_TTL_SECONDS = 5 * 60;
+
+// `exp` claim of a JWT in seconds, without verifying the signature
+function readExpClaim(accessToken: string): number | null {
+  const payload = accessToken.split(".")[1];
+  if (!payload) {
+    return null;
+  }
+  try {
+    const claims = JSON.parse(Buffer.from(payload, "base64url").toString());
+    return typeof claims.exp === "number" ? claims.exp : null;
+  } catch {
+    return null;
+  }
+}
+
+// Expiry of `accessToken` in ms since the epoch
+export function getAccessTokenExpiry(
+  accessToken: string | undefined,
+  expiresIn?: number | null,
+  now = Date.now()
+): number {
+  if (typeof expiresIn === "number" && expiresIn > 0) {
+    return now + expiresIn * 1000;
+  }
+
+  const exp = accessToken ? readExpClaim(accessToken) : null;
+  if (exp !== null) {
+    // The backend's clock may run ahead of ours
+    return exp * 1000 - serverConfig.auth.clockSkewSeconds * 1000;
+  }
+
+  return now + FALLBACK_TTL_SECONDS * 1000;
+}
+
+// Time at which a token expiring at `expiresAt` should be refreshed.
+// Clock skew is already part of `expiresAt` (see getAccessTokenExpiry)
+export function getRefreshAt(expiresAt: number): number {
+  return expiresAt - serverConfig.auth.refreshMarginSeconds * 1000;
+}
+
+export function shouldRefreshAccessToken(
+  expiresAt: number | undefined,
+  now = Date.now()
+): boolean {
+  return !expiresAt || now >= getRefreshAt(expiresAt);
+}
@@ -0,0 +1,105 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { SessionSyncEvent } from "@/lib/session-sync";
+
+const CHANNEL_NAME = "auth-session-sync";
+const STORAGE_KEY = "auth-session-sync";
+
+// Fresh copy of the module, so each test gets its own channel
+const loadSessionSync = async () => {
+  vi.resetModules();
+  return import("@/lib/session-sync");
+};
+
+// Another tab's end of the channel
+const openOtherTab = () => {
+  const channel = new BroadcastChannel(CHANNEL_NAME);
+  const received: SessionSyncEvent[] = [];
+  channel.addEventListener("message", (message) => received.push(message.data));
+  return { channel, received };
+};
+
+describe("session-sync over BroadcastChannel", () => {
+  const channels: BroadcastChannel[] = [];
+
+  afterEach(() => {
+    channels.splice(0).forEach((channel) => channel.close());
+  });
+
+  it("delivers events to other tabs but not back to the sender", async () => {
+    const { broadcastSessionEvent, subscribeSessionEvents } = await loadSessionSync();
+    const otherTab = openOtherTab();
+    channels.push(otherTab.channel);
+    const listener = vi.fn();
+    const unsubscribe = subscribeSessionEvents(listener);
+
+    broadcastSessionEvent({ type: "token-refreshed" });
+
+    await vi.waitFor(() => expect(otherTab.received).toEqual([{ type: "token-refreshed" }]));
+    expect(listener).not.toHaveBeenCalled();
+    unsubscribe();
+  });
+
+  it("passes events from other tabs to subscribers until they unsubscribe", async () => {
+    const { subscribeSessionEvents } = await loadSessionSync();
+    const otherTab = openOtherTab();
+    channels.push(otherTab.channel);
+    const listener = vi.fn();
+    const unsubscribe = subscribeSessionEvents(listener);
+
+    otherTab.channel.postMessage({ type: "signed-out" } satisfies SessionSyncEvent);
+    await vi.waitFor(() => expect(listener).toHaveBeenCalledWith({ type: "signed-out" }));
+
+    unsubscribe();
+    otherTab.channel.postMessage({ type: "profile-updated" } satisfies SessionSyncEvent);
+    // Let the message arrive before checking it was ignored
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("session-sync over storage events", () => {
+  const broadcastChannel = globalThis.BroadcastChannel;
+
+  afterEach(() => {
+    globalThis.BroadcastChannel = broadcastChannel;
+    localStorage.clear();
+  });
+
+  const loadWithoutBroadcastChannel = () => {
+    // @ts-expect-error simulate a browser without BroadcastChannel
+    delete globalThis.BroadcastChannel;
+    return loadSessionSync();
+  };
+
+  it("writes events where other tabs' storage listeners see them", async () => {
+    const { broadcastSessionEvent } = await loadWithoutBroadcastChannel();
+    const setItem = vi.spyOn(Storage.prototype, "setItem");
+
+    broadcastSessionEvent({ type: "signed-in", userId: "user-1" });
+
+    expect(setItem).toHaveBeenCalledWith(STORAGE_KEY, expect.any(String));
+    expect(JSON.parse(setItem.mock.calls[0][1]).event).toEqual({ type: "signed-in", userId: "user-1" });
+    // Removed right away so the same event can fire again
+    expect(localStorage.getItem(STORAGE_KEY)).toBeNull();
+    setItem.mockRestore();
+  });
+
+  it("passes storage events for its key to subscribers", async () => {
+    const { subscribeSessionEvents } = await loadWithoutBroadcastChannel();
+    const listener = vi.fn();
+    const unsubscribe = subscribeSessionEvents(listener);
+    const dispatch = (key: string, newValue: string | null) =>
+      window.dispatchEvent(new StorageEvent("storage", { key, newValue }));
+
+    dispatch(STORAGE_KEY, JSON.stringify({ event: { type: "signed-out" }, nonce: "1" }));
+    // Other keys, removals and malformed values are ignored
+    dispatch("unrelated", JSON.stringify({ event: { type: "signed-out" } }));
+    dispatch(STORAGE_KEY, null);
+    dispatch(STORAGE_KEY, "{not json");
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({ type: "signed-out" });
+    unsubscribe();
+  });
+});
@@ -0,0 +1,95 @@
+// Cross-tab session events. Uses BroadcastChannel where available and falls
+// back to `storage` events on localStorage. Neither delivers a message back
+// to the tab that sent it.
+
+export type SessionSyncEvent =
+  | { type: "signed-in"; userId: string }
+  | { type: "signed-out" }
+  | { type: "token-refreshed" }
+  | { type: "profile-updated" };
+
+export type SessionSyncListener = (event: SessionSyncEvent) => void;
+
+const CHANNEL_NAME = "auth-session-sync";
+const STORAGE_KEY = "auth-session-sync";
+// Message NextAuth's SessionProvider listens for to refetch the session
+const NEXTAUTH_MESSAGE_KEY = "nextauth.message";
+
+let channel: BroadcastChannel | null | undefined;
+
+function getChannel(): BroadcastChannel | null {
+  if (channel === undefined) {
+    channel =
+      typeof window !== "undefined" && "BroadcastChannel" in window
+        ? new BroadcastChannel(CHANNEL_NAME)
+        : null;
+  }
+  return channel;
+}
+
+// Tell every other open tab about a session change
+export function broadcastSessionEvent(event: SessionSyncEvent) {
+  if (typeof window === "undefined") {
+    return;
+  }
+
+  const broadcastChannel = getChannel();
+  if (broadcastChannel) {
+    broadcastChannel.postMessage(event);
+    return;
+  }
+
+  try {
+    // A unique value so repeated events still fire `storage`
+    localStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify({ event, nonce: `${Date.now()}-${Math.random()}` })
+    );
+    localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Storage disabled (private mode, quota): other tabs catch up on focus
+  }
+}
+
+// Listen for events from other tabs; returns an unsubscribe function
+export function subscribeSessionEvents(listener: SessionSyncListener): () => void {
+  if (typeof window === "undefined") {
+    return () => {};
+  }
+
+  const broadcastChannel = getChannel();
+  if (broadcastChannel) {
+    const onMessage = (message: MessageEvent<SessionSyncEvent>) => listener(message.data);
+    broadcastChannel.addEventListener("message", onMessage);
+    return () => broadcastChannel.removeEventListener("message", onMessage);
+  }
+
+  const onStorage = (storageEvent: StorageEvent) => {
+    if (storageEvent.key !== STORAGE_KEY || !storageEvent.newValue) {
+      return;
+    }
+    try {
+      listener(JSON.parse(storageEvent.newValue).event);
+    } catch {
+      // Ignore malformed values
+    }
+  };
+  window.addEventListener("storage", onStorage);
+  return () => window.removeEventListener("storage", onStorage);
+}
+
+// Make this tab's SessionProvider refetch the session. `update()` can't be
+// used here because it does nothing while signed out; NextAuth refetches on
+// its own storage message without broadcasting it again
+export function reloadSession() {
+  window.dispatchEvent(
+    new StorageEvent("storage", {
+      key: NEXTAUTH_MESSAGE_KEY,
+      newValue: JSON.stringify({
+        event: "session",
+        data: { trigger: "getSession" },
+        timestamp: Math.floor(Date.now() / 1000),
+      }),
+    })
+  );
+}
@@ -5,6 +5,8 @@ import {
   NextFetchEvent,
 } from "next/server";
 import { getToken } from "next-auth/jwt";
+import { serverConfig } from "@/lib/config/server";
+import { getSessionExpiryReason } from "@/lib/server/session-policy";
 
 const onlyAdmin = ["/admin"];
 
@@ -23,10 +25,11 @@ export default function withAuth(
     if (requiresAuth) {
       const token = await getToken({
         req,
-        secret: process.env.NEXTAUTH_SECRET,
+        secret: serverConfig.nextAuthSecret,
       });
 
-      if (!token) {
+      // Idle or past its lifetime: the cookie is cleared on the next session read
+      if (!token || getSessionExpiryReason(token)) {
         const url = new URL("/auth/login", req.url);
         url.searchParams.set("callbackUrl", encodeURIComponent(req.url));
         return NextResponse.redirect(url);
@@ -0,0 +1,48 @@
+// Dev server entry point: `npm run mock:api`
+//
+// Environment:
+//   MOCK_API_PORT       port to listen on (default 5000)
+//   MOCK_API_HOST       interface to bind (default 127.0.0.1)
+//   MOCK_API_SECRET     HS256 secret for access tokens
+//   MOCK_API_RP_ID      WebAuthn relying party id (default localhost)
+//   MOCK_API_ORIGIN     origin passkey ceremonies run on (default http://localhost:3000)
+//   MOCK_API_FAILURES   JSON array of FailureRule, e.g.
+//                       '[{"path":"/api/v1/auth/login","status":503,"times":2}]'
+import { createMockAuthBackend, FailureRule } from "./server";
+
+const failures: FailureRule[] = process.env.MOCK_API_FAILURES
+  ? JSON.parse(process.env.MOCK_API_FAILURES)
+  : [];
+
+const backend = createMockAuthBackend({
+  jwtSecret: process.env.MOCK_API_SECRET,
+  rpId: process.env.MOCK_API_RP_ID,
+  origin: process.env.MOCK_API_ORIGIN,
+  failures,
+  users: [
+    {
+      email: "demo@example.com",
+      password: "password123",
+      full_name: "Demo User",
+      is_verified: true,
+    },
+  ],
+  onMessage: (message) => {
+    console.log(
+      `[mock-api] ${message.kind} email to ${message.email}: code ${message.code}, token ${message.token}`
+    );
+  },
+});
+
+backend
+  .listen(Number(process.env.MOCK_API_PORT ?? 5000), process.env.MOCK_API_HOST)
+  .then((url) => {
+    console.log(`[mock-api] Listening on ${url}`);
+    console.log("[mock-api] Seeded demo@example.com / password123");
+  });
+
+const shutdown = () => {
+  backend.close().finally(() => process.exit(0));
+};
+process.on("SIGINT", shutdown);
+process.on("SIGTERM", shutdown);
@@ -0,0 +1,51 @@
+// Minimal HS256 JWT signing for the mock backend (node:crypto only)
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+export interface JwtClaims {
+  sub: string;
+  exp: number;
+  iat: number;
+  [claim: string]: unknown;
+}
+
+const base64url = (input: Buffer | string) =>
+  Buffer.from(input).toString("base64url");
+
+export function signJwt(
+  claims: Record<string, unknown>,
+  secret: string,
+  expiresInSeconds: number
+): string {
+  const now = Math.floor(Date.now() / 1000);
+  const header = base64url(JSON.stringify({ alg: "HS256", typ: "JWT" }));
+  const payload = base64url(
+    JSON.stringify({ ...claims, iat: now, exp: now + expiresInSeconds })
+  );
+  const signature = createHmac("sha256", secret)
+    .update(`${header}.${payload}`)
+    .digest("base64url");
+  return `${header}.${payload}.${signature}`;
+}
+
+// Returns the claims of a valid, unexpired token, or null
+export function verifyJwt(token: string, secret: string): JwtClaims | null {
+  const [header, payload, signature] = token.split(".");
+  if (!header || !payload || !signature) {
+    return null;
+  }
+
+  const expected = createHmac("sha256", secret)
+    .update(`${header}.${payload}`)
+    .digest();
+  const actual = Buffer.from(signature, "base64url");
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return null;
+  }
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, "base64url").toString()) as JwtClaims;
+    return claims.exp > Math.floor(Date.now() / 1000) ? claims : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,965 @@
+// Local stand-in for the /api/v1/auth backend. Implements every endpoint the
+// ApiClient calls with in-memory users, printable OTP codes and HS256 JWTs.
+// Run it with `npm run mock:api`, or start it in-process from a test:
+//
+//   const backend = createMockAuthBackend();
+//   const url = await backend.listen(0);
+//   ...
+//   await backend.close();
+import { randomBytes } from "node:crypto";
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import {
+  AuthenticationResponseJSON,
+  generateAuthenticationOptions,
+  generateRegistrationOptions,
+  RegistrationResponseJSON,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+} from "@simplewebauthn/server";
+import { ApiErrorCode } from "@/lib/api-errors";
+import { signJwt, verifyJwt } from "./jwt";
+import { generateTotpSecret, totpUri, verifyTotp } from "./totp";
+import {
+  checkPassword,
+  hashPassword,
+  MockPasskey,
+  MockSession,
+  MockStore,
+  MockUser,
+  OutboxMessage,
+  SeedUser,
+} from "./store";
+
+export interface FailureRule {
+  // Endpoint path (exact string or pattern) the rule applies to; all when omitted
+  path?: string | RegExp;
+  method?: string;
+  // Respond with this status instead of handling the request
+  status?: number;
+  code?: string;
+  message?: string;
+  // Sent as the Retry-After header (seconds)
+  retryAfter?: number;
+  // Drop the connection without responding
+  networkError?: boolean;
+  // Added latency before responding (ms)
+  delay?: number;
+  // How many requests the rule affects; unlimited when omitted
+  times?: number;
+}
+
+export interface MockAuthBackendOptions {
+  // HS256 secret used to sign access tokens
+  jwtSecret?: string;
+  accessTokenTtl?: number;
+  // Lifetime of OTP codes and link tokens (seconds)
+  codeTtl?: number;
+  // Minimum time between two OTP emails to the same address (seconds)
+  resendCooldown?: number;
+  users?: SeedUser[];
+  failures?: FailureRule[];
+  // Called whenever an OTP or link would have been emailed
+  onMessage?: (message: OutboxMessage) => void;
+  // WebAuthn relying party: the app's hostname and the origin passkey
+  // ceremonies run on (defaults suit `npm run dev`)
+  rpId?: string;
+  origin?: string;
+}
+
+export const DEFAULT_MOCK_JWT_SECRET = "mock-auth-backend-secret";
+export const MOCK_JWT_ISSUER = "mock-auth-backend";
+// Issuer shown in authenticator apps, and relying party name in passkey prompts
+const APP_NAME = "NEXT-TEMPLATE-LOGIN";
+const BACKUP_CODE_COUNT = 10;
+
+// Thrown by handlers to answer with an error envelope
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: string,
+    message: string,
+    readonly extra: Record<string, unknown> = {},
+    readonly headers: Record<string, string> = {}
+  ) {
+    super(message);
+  }
+}
+
+type Body = Record<string, unknown>;
+// `params` holds the values of `:name` segments in the route path
+type Handler = (
+  body: Body,
+  req: IncomingMessage,
+  params: Record<string, string>
+) => unknown | Promise<unknown>;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Client address, as reported by a proxy in front of us if there is one
+function clientIp(req: IncomingMessage): string {
+  const forwarded = req.headers["x-forwarded-for"];
+  const first = typeof forwarded === "string" ? forwarded.split(",")[0].trim() : "";
+  return first || req.socket.remoteAddress || "";
+}
+
+// Rough device/browser/OS description of a User-Agent header
+function describeUserAgent(userAgent: string) {
+  const browser =
+    /Edg\//.test(userAgent) ? "Edge"
+    : /OPR\//.test(userAgent) ? "Opera"
+    : /Firefox\//.test(userAgent) ? "Firefox"
+    : /Chrome\//.test(userAgent) ? "Chrome"
+    : /Safari\//.test(userAgent) ? "Safari"
+    : null;
+  const os =
+    /iPhone|iPad/.test(userAgent) ? "iOS"
+    : /Android/.test(userAgent) ? "Android"
+    : /Windows/.test(userAgent) ? "Windows"
+    : /Mac OS X/.test(userAgent) ? "macOS"
+    : /Linux/.test(userAgent) ? "Linux"
+    : null;
+  const device =
+    /iPad|Tablet/.test(userAgent) ? "Tablet"
+    : /Mobile|iPhone|Android/.test(userAgent) ? "Mobile"
+    : userAgent ? "Desktop"
+    : null;
+  return { device, browser, os };
+}
+
+function requireObject<T>(body: Body, field: string): T {
+  const value = body[field];
+  if (typeof value !== "object" || value === null) {
+    throw new HttpError(400, ApiErrorCode.ValidationFailed, `${field} is required`, {
+      fields: { [field]: [`${field} is required`] },
+    });
+  }
+  return value as T;
+}
+
+function requireString(body: Body, field: string): string {
+  const value = body[field];
+  if (typeof value !== "string" || value.trim() === "") {
+    throw new HttpError(400, ApiErrorCode.ValidationFailed, `${field} is required`, {
+      fields: { [field]: [`${field} is required`] },
+    });
+  }
+  return value.trim();
+}
+
+async function readBody(req: IncomingMessage): Promise<Body> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  if (chunks.length === 0) {
+    return {};
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString());
+  } catch {
+    throw new HttpError(400, ApiErrorCode.ValidationFailed, "Invalid JSON body");
+  }
+}
+
+function send(res: ServerResponse, status: number, payload: unknown, headers: Record<string, string> = {}) {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Headers": "Content-Type, Authorization",
+    "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+    ...headers,
+  });
+  res.end(JSON.stringify(payload));
+}
+
+export function createMockAuthBackend(options: MockAuthBackendOptions = {}) {
+  const jwtSecret = options.jwtSecret ?? DEFAULT_MOCK_JWT_SECRET;
+  const accessTokenTtl = options.accessTokenTtl ?? 15 * 60;
+  const resendCooldown = options.resendCooldown ?? 30;
+  const rpId = options.rpId ?? "localhost";
+  const origin = options.origin ?? "http://localhost:3000";
+  const store = new MockStore(options.codeTtl ?? 10 * 60);
+  const failures: FailureRule[] = [...(options.failures ?? [])];
+
+  for (const seed of options.users ?? []) {
+    store.createUser(seed);
+  }
+
+  const deliver = (email: string, kind: OutboxMessage["kind"]) => {
+    const message = store.sendCode(email, kind);
+    options.onMessage?.(message);
+    return message;
+  };
+
+  const tokenResponse = (user: MockUser, session: MockSession) => ({
+    user: store.toPublicUser(user),
+    access_token: signJwt(
+      {
+        sub: user.id,
+        userId: user.id,
+        email: user.email,
+        role: user.user_type,
+        sid: session.id,
+        iss: MOCK_JWT_ISSUER,
+      },
+      jwtSecret,
+      accessTokenTtl
+    ),
+    refresh_token: session.refreshToken,
+    expires_in: accessTokenTtl,
+  });
+
+  // Sign `user` in on the device making the request
+  const issueTokens = (user: MockUser, req: IncomingMessage, loginType = "credential") => {
+    user.last_login = new Date().toISOString();
+    const session = store.createSession(user.id, {
+      userAgent: req.headers["user-agent"] ?? "",
+      ipAddress: clientIp(req),
+      loginType,
+    });
+    return tokenResponse(user, session);
+  };
+
+  // User and session owning the Bearer token of the request. Tokens of
+  // revoked sessions are rejected even before they expire
+  const authenticate = (req: IncomingMessage): { user: MockUser; sessionId: string } => {
+    const header = req.headers.authorization ?? "";
+    const claims = header.startsWith("Bearer ")
+      ? verifyJwt(header.slice(7), jwtSecret)
+      : null;
+    const user = claims ? store.users.get(claims.sub) : undefined;
+    const sessionId = typeof claims?.sid === "string" ? claims.sid : "";
+    if (!user || !store.sessions.has(sessionId)) {
+      throw new HttpError(401, ApiErrorCode.InvalidToken, "Invalid or expired access token");
+    }
+    return { user, sessionId };
+  };
+
+  const ensureCanSend = (email: string, kind: OutboxMessage["kind"]) => {
+    const lastSentAt = store.lastSentAt(email, kind);
+    const wait = lastSentAt
+      ? Math.ceil(resendCooldown - (Date.now() - lastSentAt) / 1000)
+      : 0;
+    if (wait > 0) {
+      throw new HttpError(
+        429,
+        ApiErrorCode.RateLimited,
+        `Please wait ${wait} seconds before requesting another code`,
+        { retry_after: wait },
+        { "Retry-After": String(wait) }
+      );
+    }
+  };
+
+  const routes: Record<string, Handler> = {
+    "POST /api/v1/auth/register": (body) => {
+      const email = requireString(body, "email");
+      const password = requireString(body, "password");
+      const existing = store.findByEmail(email);
+      if (existing) {
+        throw new HttpError(
+          409,
+          existing.password_hash
+            ? ApiErrorCode.EmailAlreadyRegistered
+            : ApiErrorCode.AccountExistsWithOAuth,
+          existing.password_hash
+            ? "Email already registered"
+            : "Email already registered with another provider",
+          { provider: existing.password_hash ? undefined : existing.identities[0]?.provider }
+        );
+      }
+      const user = store.createUser({
+        email,
+        password,
+        full_name: requireString(body, "full_name"),
+        user_type: typeof body.user_type === "string" ? body.user_type : undefined,
+      });
+      const message = deliver(user.email, "verification");
+      return {
+        message: "Registration successful, please verify your email",
+        user: store.toPublicUser(user),
+        requires_verification: true,
+        verification_token: message.token,
+      };
+    },
+
+    "POST /api/v1/auth/login": (body, req) => {
+      const user = store.findByEmail(requireString(body, "email"));
+      const password = requireString(body, "password");
+      if (!user) {
+        throw new HttpError(404, ApiErrorCode.UserNotFound, "User not found");
+      }
+      if (!user.password_hash) {
+        throw new HttpError(409, ApiErrorCode.AccountExistsWithOAuth, "Email registered with another provider, please sign in with it", {
+          provider: user.identities[0]?.provider,
+        });
+      }
+      if (!checkPassword(password, user.password_hash)) {
+        throw new HttpError(401, ApiErrorCode.InvalidCredentials, "Invalid email or password");
+      }
+      if (!user.is_active) {
+        throw new HttpError(403, ApiErrorCode.AccountDisabled, "Your account is banned");
+      }
+      if (user.totp_secret) {
+        throw new HttpError(401, ApiErrorCode.TwoFactorRequired, "Two-factor code required", {
+          requires_two_factor: true,
+          two_factor_token: store.createTwoFactorChallenge(user.id),
+        });
+      }
+      if (!user.is_verified) {
+        deliver(user.email, "verification");
+        throw new HttpError(401, ApiErrorCode.EmailNotVerified, "Email not verified, an OTP has been sent", {
+          requires_verification: true,
+          email: user.email,
+        });
+      }
+      return issueTokens(user, req);
+    },
+
+    "POST /api/v1/auth/verify-otp": (body, req) => {
+      const email = consumeOrFail("verification", {
+        email: requireString(body, "email").toLowerCase(),
+        code: requireString(body, "otp_code"),
+      });
+      const user = store.findByEmail(email)!;
+      user.is_verified = true;
+      return issueTokens(user, req);
+    },
+
+    "POST /api/v1/auth/resend-otp": (body) => {
+      const user = store.findByEmail(requireString(body, "email"));
+      if (user && !user.is_verified) {
+        ensureCanSend(user.email, "verification");
+        deliver(user.email, "verification");
+      }
+      return { message: "If the account exists, a new OTP has been sent" };
+    },
+
+    "POST /api/v1/auth/oauth": (body, req) => {
+      const provider = requireString(body, "provider");
+      const providerAccountId = requireString(body, "provider_account_id");
+      const email = requireString(body, "email").toLowerCase();
+      let user = store.findIdentity(provider, providerAccountId);
+      if (!user) {
+        const existing = store.findByEmail(email);
+        if (existing?.identities.some((identity) => identity.provider === provider)) {
+          throw new HttpError(409, ApiErrorCode.OAuthAccountMismatch, `Email registered with a different ${provider} account`);
+        }
+        // Linked once the user proves they own the account: with the
+        // password, or by signing in with the provider they already use
+        if (existing) {
+          throw new HttpError(
+            409,
+            existing.password_hash
+              ? ApiErrorCode.AccountExistsWithPassword
+              : ApiErrorCode.AccountExistsWithOAuth,
+            existing.password_hash
+              ? "Email already registered with password"
+              : "Email already registered with another provider",
+            {
+              provider: existing.password_hash ? undefined : existing.identities[0]?.provider,
+              link_token: store.createLinkRequest(existing.id, { provider, providerAccountId, email }),
+            }
+          );
+        }
+        user = store.createUser({
+          email,
+          identity: { provider, providerAccountId },
+          full_name: typeof body.name === "string" && body.name ? body.name : email,
+          is_verified: true,
+        });
+        user.profile_photo = typeof body.avatar === "string" ? body.avatar : "";
+      }
+      // The provider stands in for the password, not the second factor
+      if (user.totp_secret) {
+        throw new HttpError(401, ApiErrorCode.TwoFactorRequired, "Two-factor code required", {
+          requires_two_factor: true,
+          two_factor_token: store.createTwoFactorChallenge(user.id),
+        });
+      }
+      return issueTokens(user, req, provider);
+    },
+
+    // Connecting from the settings page: the app has checked the provider
+    // sign-in and links it to the user the connect token was issued to
+    "POST /api/v1/auth/oauth/connect": (body, req) => {
+      const { user, sessionId } = authenticate(req);
+      const intent = store.consumeConnectIntent(requireString(body, "connect_token"));
+      if (!intent || intent.userId !== user.id || intent.sessionId !== sessionId) {
+        throw new HttpError(400, ApiErrorCode.InvalidToken, "Connect request expired, please try again");
+      }
+      const provider = requireString(body, "provider");
+      const providerAccountId = requireString(body, "provider_account_id");
+      const owner = store.findIdentity(provider, providerAccountId);
+      if (owner?.id === user.id) {
+        return { message: "Provider already connected" };
+      }
+      if (owner) {
+        throw new HttpError(409, ApiErrorCode.IdentityInUse, `This ${provider} account signs in to another user`);
+      }
+      if (user.identities.some((identity) => identity.provider === provider)) {
+        throw new HttpError(409, ApiErrorCode.OAuthAccountMismatch, `A different ${provider} account is already connected`);
+      }
+      user.identities.push({
+        provider,
+        providerAccountId,
+        email: requireString(body, "email").toLowerCase(),
+        linkedAt: new Date().toISOString(),
+      });
+      return { message: "Provider connected" };
+    },
+
+    "POST /api/v1/auth/link-account": (body, req) => {
+      const token = requireString(body, "link_token");
+      const request = store.findLinkRequest(token);
+      const user = request && store.users.get(request.userId);
+      if (!request || !user) {
+        throw new HttpError(400, ApiErrorCode.InvalidToken, "Link request expired, please sign in again");
+      }
+      if (!user.password_hash || !checkPassword(requireString(body, "password"), user.password_hash)) {
+        throw new HttpError(401, ApiErrorCode.InvalidCredentials, "Invalid password");
+      }
+      store.consumeLinkRequest(token);
+      user.identities.push({ ...request.identity, linkedAt: new Date().toISOString() });
+      // Linking is done; signing in still takes the second factor
+      if (user.totp_secret) {
+        throw new HttpError(401, ApiErrorCode.TwoFactorRequired, "Two-factor code required", {
+          requires_two_factor: true,
+          two_factor_token: store.createTwoFactorChallenge(user.id),
+        });
+      }
+      return issueTokens(user, req, request.identity.provider);
+    },
+
+    // Same as link-account for a signed-in user: the session proves
+    // ownership instead of the password
+    "POST /api/v1/auth/identities": (body, req) => {
+      const { user } = authenticate(req);
+      const token = requireString(body, "link_token");
+      const request = store.findLinkRequest(token);
+      if (!request || request.userId !== user.id) {
+        throw new HttpError(400, ApiErrorCode.InvalidToken, "Link request expired, please sign in again");
+      }
+      store.consumeLinkRequest(token);
+      user.identities.push({ ...request.identity, linkedAt: new Date().toISOString() });
+      return { message: "Provider connected" };
+    },
+
+    // First step of connecting a provider from the settings page
+    "POST /api/v1/auth/identities/connect-token": (_body, req) => {
+      const { user, sessionId } = authenticate(req);
+      return { connect_token: store.createConnectIntent(user.id, sessionId) };
+    },
+
+    "GET /api/v1/auth/identities": (_body, req) => {
+      const { user } = authenticate(req);
+      return {
+        has_password: !!user.password_hash,
+        identities: user.identities.map((identity) => ({
+          provider: identity.provider,
+          email: identity.email,
+          linked_at: identity.linkedAt,
+        })),
+      };
+    },
+
+    "DELETE /api/v1/auth/identities/:provider": (_body, req, params) => {
+      const { user } = authenticate(req);
+      const remaining = user.identities.filter((identity) => identity.provider !== params.provider);
+      if (remaining.length === user.identities.length) {
+        throw new HttpError(404, "IDENTITY_NOT_FOUND", "Provider is not connected");
+      }
+      if (!user.password_hash && remaining.length === 0 && store.userPasskeys(user.id).length === 0) {
+        throw new HttpError(409, ApiErrorCode.LastLoginMethod, "Cannot remove the last way to sign in");
+      }
+      user.identities = remaining;
+      return { message: "Provider disconnected" };
+    },
+
+    // Adds a password to an account that signs in with an external provider
+    "POST /api/v1/auth/password": (body, req) => {
+      const { user } = authenticate(req);
+      if (user.password_hash) {
+        throw new HttpError(409, "PASSWORD_ALREADY_SET", "Account already has a password");
+      }
+      user.password_hash = hashPassword(requireString(body, "new_password"));
+      return { message: "Password set" };
+    },
+
+    "POST /api/v1/auth/refresh-token": (body) => {
+      const session = store.findSessionByRefreshToken(requireString(body, "refresh_token"));
+      const user = session && store.users.get(session.userId);
+      if (!session || !user) {
+        throw new HttpError(401, ApiErrorCode.InvalidToken, "Invalid refresh token");
+      }
+      // Refresh tokens rotate on every use
+      store.rotateRefreshToken(session);
+      return tokenResponse(user, session);
+    },
+
+    // Revoking an unknown or already revoked token succeeds, like the backend
+    "POST /api/v1/auth/logout": (body) => {
+      const session = store.findSessionByRefreshToken(requireString(body, "refresh_token"));
+      if (session) {
+        store.sessions.delete(session.id);
+      }
+      return { message: "Logged out" };
+    },
+
+    "POST /api/v1/auth/logout-all": (_body, req) => {
+      const revoked = store.revokeUserSessions(authenticate(req).user.id);
+      return { message: `Logged out of ${revoked} session(s)` };
+    },
+
+    "POST /api/v1/auth/forgot-password": (body) => {
+      const user = store.findByEmail(requireString(body, "email"));
+      if (user?.password_hash) {
+        ensureCanSend(user.email, "password-reset");
+        deliver(user.email, "password-reset");
+      }
+      return { message: "If the account exists, a reset code has been sent" };
+    },
+
+    "POST /api/v1/auth/magic-link": (body) => {
+      const user = store.findByEmail(requireString(body, "email"));
+      if (user?.is_active) {
+        ensureCanSend(user.email, "magic-link");
+        deliver(user.email, "magic-link");
+      }
+      return { message: "If the account exists, a sign-in link has been sent" };
+    },
+
+    "POST /api/v1/auth/magic-link/verify": (body, req) => {
+      const token = requireString(body, "token");
+      const email = store.consumeCode("magic-link", { token });
+      const user = email ? store.findByEmail(email) : undefined;
+      if (!user) {
+        const state = store.tokenState("magic-link", token);
+        throw new HttpError(
+          400,
+          state === "used" ? ApiErrorCode.MagicLinkUsed
+            : state === "expired" ? ApiErrorCode.MagicLinkExpired
+            : ApiErrorCode.InvalidToken,
+          state === "used" ? "Sign-in link has already been used"
+            : state === "expired" ? "Sign-in link has expired"
+            : "Invalid sign-in link"
+        );
+      }
+      // Opening the link proves the address
+      user.is_verified = true;
+      if (user.totp_secret) {
+        throw new HttpError(401, ApiErrorCode.TwoFactorRequired, "Two-factor code required", {
+          requires_two_factor: true,
+          two_factor_token: store.createTwoFactorChallenge(user.id),
+        });
+      }
+      return issueTokens(user, req, "magic-link");
+    },
+
+    "POST /api/v1/auth/verify-reset-password": (body) => {
+      const email = consumeOrFail("password-reset", {
+        email: requireString(body, "email").toLowerCase(),
+        code: requireString(body, "otp_code"),
+      });
+      setPassword(email, requireString(body, "new_password"));
+      return { message: "Password has been reset" };
+    },
+
+    "POST /api/v1/auth/reset-password": (body, req) => {
+      const email = consumeOrFail("password-reset", {
+        token: requireString(body, "token"),
+      });
+      const user = setPassword(email, requireString(body, "newPassword"));
+      return issueTokens(user, req);
+    },
+
+    "POST /api/v1/auth/verify-email": (body, req) => {
+      const email = consumeOrFail("verification", {
+        token: requireString(body, "token"),
+      });
+      const user = store.findByEmail(email)!;
+      user.is_verified = true;
+      return issueTokens(user, req);
+    },
+
+    "GET /api/v1/auth/me": (_body, req) => ({
+      user: store.toPublicUser(authenticate(req).user),
+    }),
+
+    "POST /api/v1/auth/2fa/verify": (body, req) => {
+      const token = requireString(body, "two_factor_token");
+      const user = store.users.get(store.findTwoFactorChallenge(token) ?? "");
+      if (!user) {
+        throw new HttpError(401, ApiErrorCode.InvalidToken, "Two-factor challenge expired, please log in again");
+      }
+      checkTwoFactorCode(user, requireString(body, "code"));
+      store.findTwoFactorChallenge(token, true);
+      return issueTokens(user, req);
+    },
+
+    "POST /api/v1/auth/2fa/setup": (_body, req) => {
+      const { user } = authenticate(req);
+      if (user.totp_secret) {
+        throw new HttpError(409, "TWO_FACTOR_ALREADY_ENABLED", "Two-factor authentication is already enabled");
+      }
+      user.pending_totp_secret = generateTotpSecret();
+      return {
+        secret: user.pending_totp_secret,
+        otpauth_url: totpUri(user.pending_totp_secret, user.email, APP_NAME),
+      };
+    },
+
+    "POST /api/v1/auth/2fa/enable": (body, req) => {
+      const { user } = authenticate(req);
+      const code = requireString(body, "code");
+      if (!user.pending_totp_secret) {
+        throw new HttpError(400, ApiErrorCode.ValidationFailed, "Start two-factor setup first");
+      }
+      if (!verifyTotp(user.pending_totp_secret, code)) {
+        throw new HttpError(400, ApiErrorCode.InvalidTwoFactorCode, "Invalid authentication code");
+      }
+      user.totp_secret = user.pending_totp_secret;
+      user.pending_totp_secret = undefined;
+      user.backup_codes = Array.from({ length: BACKUP_CODE_COUNT }, () =>
+        randomBytes(4).toString("hex").replace(/^(.{4})/, "$1-")
+      );
+      return {
+        message: "Two-factor authentication enabled",
+        backup_codes: user.backup_codes,
+      };
+    },
+
+    "POST /api/v1/auth/2fa/disable": (body, req) => {
+      const { user } = authenticate(req);
+      if (!user.totp_secret) {
+        throw new HttpError(400, ApiErrorCode.ValidationFailed, "Two-factor authentication is not enabled");
+      }
+      checkTwoFactorCode(user, requireString(body, "code"), 400);
+      user.totp_secret = undefined;
+      user.backup_codes = undefined;
+      return { message: "Two-factor authentication disabled" };
+    },
+
+    "GET /api/v1/auth/passkeys": (_body, req) => {
+      const { user } = authenticate(req);
+      return {
+        passkeys: store.userPasskeys(user.id).map(toPublicPasskey),
+      };
+    },
+
+    "POST /api/v1/auth/passkeys/register/options": async (_body, req) => {
+      const { user } = authenticate(req);
+      const options = await generateRegistrationOptions({
+        rpName: APP_NAME,
+        rpID: rpId,
+        userName: user.email,
+        userID: new TextEncoder().encode(user.id),
+        userDisplayName: user.full_name,
+        attestationType: "none",
+        excludeCredentials: store.userPasskeys(user.id).map((passkey) => ({
+          id: passkey.id,
+          transports: passkey.transports,
+        })),
+        // Discoverable, so sign-in works without typing the email first
+        authenticatorSelection: { residentKey: "required", userVerification: "preferred" },
+      });
+      user.pending_passkey_challenge = options.challenge;
+      return options;
+    },
+
+    "POST /api/v1/auth/passkeys/register/verify": async (body, req) => {
+      const { user } = authenticate(req);
+      const expectedChallenge = user.pending_passkey_challenge;
+      if (!expectedChallenge) {
+        throw new HttpError(400, ApiErrorCode.ValidationFailed, "Request registration options first");
+      }
+      user.pending_passkey_challenge = undefined;
+
+      const verification = await verifyRegistrationResponse({
+        response: requireObject<RegistrationResponseJSON>(body, "credential"),
+        expectedChallenge,
+        expectedOrigin: origin,
+        expectedRPID: rpId,
+        requireUserVerification: false,
+      }).catch(() => null);
+      if (!verification?.verified) {
+        throw new HttpError(400, ApiErrorCode.ValidationFailed, "Passkey registration could not be verified");
+      }
+
+      const { credential } = verification.registrationInfo;
+      const name = typeof body.name === "string" && body.name.trim() ? body.name.trim() : "Passkey";
+      const passkey = {
+        id: credential.id,
+        userId: user.id,
+        name,
+        publicKey: credential.publicKey,
+        counter: credential.counter,
+        transports: credential.transports,
+        createdAt: new Date().toISOString(),
+      };
+      store.passkeys.set(passkey.id, passkey);
+      return { passkey: toPublicPasskey(passkey) };
+    },
+
+    "DELETE /api/v1/auth/passkeys/:id": (_body, req, params) => {
+      const { user } = authenticate(req);
+      const passkey = store.passkeys.get(params.id);
+      if (!passkey || passkey.userId !== user.id) {
+        throw new HttpError(404, "PASSKEY_NOT_FOUND", "Passkey not found");
+      }
+      store.passkeys.delete(passkey.id);
+      return { message: "Passkey deleted" };
+    },
+
+    "POST /api/v1/auth/passkeys/login/options": async () => {
+      // No allowCredentials: the browser offers every passkey it holds for us
+      const options = await generateAuthenticationOptions({
+        rpID: rpId,
+        userVerification: "preferred",
+      });
+      return {
+        challenge_token: store.createPasskeyChallenge(options.challenge),
+        options,
+      };
+    },
+
+    "POST /api/v1/auth/passkeys/login/verify": async (body, req) => {
+      const expectedChallenge = store.consumePasskeyChallenge(
+        requireString(body, "challenge_token")
+      );
+      const response = requireObject<AuthenticationResponseJSON>(body, "credential");
+      const passkey = store.passkeys.get(String(response.id));
+      if (!expectedChallenge || !passkey) {
+        throw new HttpError(401, ApiErrorCode.InvalidCredentials, "Passkey not recognized or sign-in expired");
+      }
+
+      const verification = await verifyAuthenticationResponse({
+        response,
+        expectedChallenge,
+        expectedOrigin: origin,
+        expectedRPID: rpId,
+        credential: {
+          id: passkey.id,
+          publicKey: passkey.publicKey,
+          counter: passkey.counter,
+          transports: passkey.transports,
+        },
+        requireUserVerification: false,
+      }).catch(() => null);
+      if (!verification?.verified) {
+        throw new HttpError(401, ApiErrorCode.InvalidCredentials, "Passkey could not be verified");
+      }
+
+      const user = store.users.get(passkey.userId)!;
+      if (!user.is_active) {
+        throw new HttpError(403, ApiErrorCode.AccountDisabled, "Your account is banned");
+      }
+      passkey.counter = verification.authenticationInfo.newCounter;
+      passkey.lastUsedAt = new Date().toISOString();
+      return issueTokens(user, req, "passkey");
+    },
+
+    "GET /api/v1/auth/sessions": (_body, req) => {
+      const { user, sessionId } = authenticate(req);
+      return {
+        sessions: store
+          .userSessions(user.id)
+          .sort((a, b) => b.lastSeenAt.localeCompare(a.lastSeenAt))
+          .map((session) => ({
+            id: session.id,
+            ...describeUserAgent(session.userAgent),
+            ip_address: session.ipAddress,
+            last_login: session.lastSeenAt,
+            login_type: session.loginType,
+            created_at: session.createdAt,
+            is_current: session.id === sessionId,
+          })),
+      };
+    },
+
+    "DELETE /api/v1/auth/sessions/:id": (_body, req, params) => {
+      const { user } = authenticate(req);
+      const session = store.sessions.get(params.id);
+      if (!session || session.userId !== user.id) {
+        throw new HttpError(404, "SESSION_NOT_FOUND", "Session not found");
+      }
+      store.sessions.delete(session.id);
+      return { message: "Session revoked" };
+    },
+  };
+
+  function consumeOrFail(
+    kind: OutboxMessage["kind"],
+    match: { email: string; code: string } | { token: string }
+  ): string {
+    const email = store.consumeCode(kind, match);
+    if (!email || !store.findByEmail(email)) {
+      throw new HttpError(
+        400,
+        "token" in match ? ApiErrorCode.InvalidToken : ApiErrorCode.InvalidOtp,
+        "token" in match ? "Invalid or expired token" : "Invalid or expired OTP code"
+      );
+    }
+    return email;
+  }
+
+  function setPassword(email: string, password: string): MockUser {
+    const user = store.findByEmail(email)!;
+    user.password_hash = hashPassword(password);
+    return user;
+  }
+
+  function toPublicPasskey(passkey: MockPasskey) {
+    return {
+      id: passkey.id,
+      name: passkey.name,
+      created_at: passkey.createdAt,
+      last_used_at: passkey.lastUsedAt ?? null,
+    };
+  }
+
+  // Accept an authenticator code, or use up a backup code
+  function checkTwoFactorCode(user: MockUser, code: string, status = 401) {
+    const normalized = code.trim().toLowerCase();
+    if (user.totp_secret && verifyTotp(user.totp_secret, normalized)) {
+      return;
+    }
+    const backupIndex = user.backup_codes?.indexOf(normalized) ?? -1;
+    if (backupIndex >= 0) {
+      user.backup_codes!.splice(backupIndex, 1);
+      return;
+    }
+    throw new HttpError(status, ApiErrorCode.InvalidTwoFactorCode, "Invalid authentication code");
+  }
+
+  // Route for `method path`; `:name` segments in route paths match any value
+  const matchRoute = (method: string, path: string) => {
+    const segments = path.split("/");
+    for (const [key, handler] of Object.entries(routes)) {
+      const [routeMethod, routePath] = key.split(" ");
+      const routeSegments = routePath.split("/");
+      if (routeMethod !== method || routeSegments.length !== segments.length) {
+        continue;
+      }
+      const params: Record<string, string> = {};
+      const matches = routeSegments.every((segment, index) => {
+        if (segment.startsWith(":")) {
+          params[segment.slice(1)] = decodeURIComponent(segments[index]);
+          return true;
+        }
+        return segment === segments[index];
+      });
+      if (matches) {
+        return { handler, params };
+      }
+    }
+    return undefined;
+  };
+
+  // First matching failure rule, consuming one of its `times`
+  const takeFailure = (method: string, path: string): FailureRule | undefined => {
+    const index = failures.findIndex(
+      (rule) =>
+        (!rule.method || rule.method.toUpperCase() === method) &&
+        (!rule.path ||
+          (typeof rule.path === "string" ? rule.path === path : rule.path.test(path)))
+    );
+    if (index === -1) {
+      return undefined;
+    }
+    const rule = failures[index];
+    if (rule.times !== undefined && --rule.times <= 0) {
+      failures.splice(index, 1);
+    }
+    return rule;
+  };
+
+  const server = createServer(async (req, res) => {
+    const method = req.method ?? "GET";
+    const path = new URL(req.url ?? "/", "http://localhost").pathname;
+
+    if (method === "OPTIONS") {
+      send(res, 204, null);
+      return;
+    }
+
+    try {
+      const failure = takeFailure(method, path);
+      if (failure?.delay) {
+        await sleep(failure.delay);
+      }
+      if (failure?.networkError) {
+        req.socket.destroy();
+        return;
+      }
+      if (failure?.status) {
+        throw new HttpError(
+          failure.status,
+          failure.code ?? "INJECTED_FAILURE",
+          failure.message ?? "Injected failure",
+          failure.retryAfter !== undefined ? { retry_after: failure.retryAfter } : {},
+          failure.retryAfter !== undefined ? { "Retry-After": String(failure.retryAfter) } : {}
+        );
+      }
+
+      const route = matchRoute(method, path);
+      if (!route) {
+        throw new HttpError(404, "NOT_FOUND", `No route for ${method} ${path}`);
+      }
+      const data = await route.handler(await readBody(req), req, route.params);
+      send(res, 200, { success: true, data });
+    } catch (error) {
+      if (error instanceof HttpError) {
+        send(
+          res,
+          error.status,
+          { success: false, error: { code: error.code, message: error.message, ...error.extra } },
+          error.headers
+        );
+        return;
+      }
+      console.error("[mock-api] Unhandled error:", error);
+      send(res, 500, { success: false, error: { code: "INTERNAL", message: "Internal server error" } });
+    }
+  });
+
+  return {
+    server,
+    store,
+    // Emails "sent" so far, newest last
+    outbox: store.outbox,
+    jwtSecret,
+
+    // Start listening; resolves with the base URL (port 0 picks a free port)
+    listen(port = 5000, host = "127.0.0.1"): Promise<string> {
+      return new Promise((resolve) => {
+        server.listen(port, host, () => {
+          const address = server.address() as AddressInfo;
+          resolve(`http://${host}:${address.port}`);
+        });
+      });
+    },
+
+    close(): Promise<void> {
+      return new Promise((resolve, reject) =>
+        server.close((error) => (error ? reject(error) : resolve()))
+      );
+    },
+
+    injectFailure(rule: FailureRule) {
+      failures.push({ ...rule });
+    },
+
+    clearFailures() {
+      failures.length = 0;
+    },
+
+    // Latest OTP/link sent to `email`
+    lastMessage(email: string): OutboxMessage | undefined {
+      return [...store.outbox].reverse().find((message) => message.email === email.toLowerCase());
+    },
+  };
+}
+
+export type MockAuthBackend = ReturnType<typeof createMockAuthBackend>;
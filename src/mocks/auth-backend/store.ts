@@ -0,0 +1,362 @@
+// In-memory state of the mock backend
+import { randomBytes, randomInt, randomUUID, scryptSync, timingSafeEqual } from "node:crypto";
+import type { WebAuthnCredential } from "@simplewebauthn/server";
+import { UserSchema } from "@/lib/schemas/auth";
+import type { User } from "@/types/auth";
+
+// An external login (e.g. Google) connected to a user
+export interface MockIdentity {
+  provider: string;
+  providerAccountId: string;
+  email: string;
+  linkedAt: string;
+}
+
+export interface MockUser extends User {
+  password_hash?: string;
+  identities: MockIdentity[];
+  // Authenticator app secret once 2FA is enabled, and while enrolling
+  totp_secret?: string;
+  pending_totp_secret?: string;
+  // Unused one-time backup codes
+  backup_codes?: string[];
+  // Challenge of the passkey registration in progress
+  pending_passkey_challenge?: string;
+}
+
+export interface SeedUser {
+  email: string;
+  full_name: string;
+  password?: string;
+  // External login the account was created with
+  identity?: { provider: string; providerAccountId: string };
+  is_verified?: boolean;
+  is_active?: boolean;
+  user_type?: string;
+}
+
+// Something the backend would have emailed: an OTP code and/or a link token
+export interface OutboxMessage {
+  email: string;
+  kind: "verification" | "password-reset" | "magic-link";
+  code: string;
+  token: string;
+  sentAt: number;
+}
+
+// A signed-in device: one refresh token, rotated on every refresh
+export interface MockSession {
+  id: string;
+  userId: string;
+  refreshToken: string;
+  userAgent: string;
+  ipAddress: string;
+  loginType: string;
+  createdAt: string;
+  lastSeenAt: string;
+}
+
+// A registered WebAuthn credential
+export interface MockPasskey {
+  // Credential id (base64url)
+  id: string;
+  userId: string;
+  name: string;
+  publicKey: WebAuthnCredential["publicKey"];
+  counter: number;
+  transports?: WebAuthnCredential["transports"];
+  createdAt: string;
+  lastUsedAt?: string;
+}
+
+// External login that matched an existing account by email; linked once
+// the user proves they own that account
+interface LinkRequest {
+  userId: string;
+  identity: Omit<MockIdentity, "linkedAt">;
+  expiresAt: number;
+}
+
+// A signed-in user's request to connect a provider, redeemed once the
+// provider sign-in comes back
+interface ConnectIntent {
+  userId: string;
+  sessionId: string;
+  expiresAt: number;
+}
+
+// Password checked, waiting for the second factor
+interface TwoFactorChallenge {
+  userId: string;
+  expiresAt: number;
+}
+
+interface PendingCode {
+  kind: OutboxMessage["kind"];
+  email: string;
+  code: string;
+  token: string;
+  expiresAt: number;
+}
+
+export function hashPassword(password: string): string {
+  const salt = randomBytes(16).toString("hex");
+  return `${salt}:${scryptSync(password, salt, 32).toString("hex")}`;
+}
+
+export function checkPassword(password: string, hash: string): boolean {
+  const [salt, key] = hash.split(":");
+  const expected = Buffer.from(key, "hex");
+  const actual = scryptSync(password, salt, expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+export class MockStore {
+  readonly users = new Map<string, MockUser>();
+  // session id -> session
+  readonly sessions = new Map<string, MockSession>();
+  // credential id -> passkey
+  readonly passkeys = new Map<string, MockPasskey>();
+  readonly outbox: OutboxMessage[] = [];
+  private pending = new Map<string, PendingCode>();
+  // Link tokens already exchanged, to tell "used" from "unknown"
+  private consumedTokens = new Set<string>();
+  private twoFactorChallenges = new Map<string, TwoFactorChallenge>();
+  private linkRequests = new Map<string, LinkRequest>();
+  private connectIntents = new Map<string, ConnectIntent>();
+  // challenge token -> WebAuthn challenge of a passkey sign-in
+  private passkeyChallenges = new Map<string, { challenge: string; expiresAt: number }>();
+
+  constructor(private codeTtlSeconds: number) {}
+
+  findByEmail(email: string): MockUser | undefined {
+    const normalized = email.trim().toLowerCase();
+    return [...this.users.values()].find((user) => user.email === normalized);
+  }
+
+  createUser(seed: SeedUser): MockUser {
+    const user: MockUser = {
+      id: randomUUID(),
+      email: seed.email.trim().toLowerCase(),
+      full_name: seed.full_name,
+      username: seed.full_name,
+      user_type: seed.user_type ?? "member",
+      profile_photo: "",
+      is_active: seed.is_active ?? true,
+      is_verified: seed.is_verified ?? false,
+      login_type: seed.identity?.provider ?? "credential",
+      created_at: new Date().toISOString(),
+      password_hash: seed.password ? hashPassword(seed.password) : undefined,
+      identities: seed.identity
+        ? [
+            {
+              ...seed.identity,
+              email: seed.email.trim().toLowerCase(),
+              linkedAt: new Date().toISOString(),
+            },
+          ]
+        : [],
+    };
+    this.users.set(user.id, user);
+    return user;
+  }
+
+  // Public view of a user: only the fields of the API's User object, so
+  // credentials and pending secrets are dropped
+  toPublicUser(user: MockUser): User {
+    return UserSchema.parse({ ...user, two_factor_enabled: !!user.totp_secret });
+  }
+
+  findIdentity(provider: string, providerAccountId: string): MockUser | undefined {
+    return [...this.users.values()].find((user) =>
+      user.identities.some(
+        (identity) =>
+          identity.provider === provider && identity.providerAccountId === providerAccountId
+      )
+    );
+  }
+
+  // Token the user trades, with their password, for linking `identity`
+  createLinkRequest(userId: string, identity: LinkRequest["identity"]): string {
+    const token = randomBytes(24).toString("base64url");
+    this.linkRequests.set(token, {
+      userId,
+      identity,
+      expiresAt: Date.now() + this.codeTtlSeconds * 1000,
+    });
+    return token;
+  }
+
+  findLinkRequest(token: string): LinkRequest | null {
+    const request = this.linkRequests.get(token);
+    return request && request.expiresAt >= Date.now() ? request : null;
+  }
+
+  consumeLinkRequest(token: string) {
+    this.linkRequests.delete(token);
+  }
+
+  // Token for linking whichever provider account the user signs in with next
+  createConnectIntent(userId: string, sessionId: string): string {
+    const token = randomBytes(24).toString("base64url");
+    this.connectIntents.set(token, {
+      userId,
+      sessionId,
+      expiresAt: Date.now() + this.codeTtlSeconds * 1000,
+    });
+    return token;
+  }
+
+  // Live intent of a token; each can be redeemed once
+  consumeConnectIntent(token: string): ConnectIntent | null {
+    const intent = this.connectIntents.get(token);
+    this.connectIntents.delete(token);
+    return intent && intent.expiresAt >= Date.now() ? intent : null;
+  }
+
+  // Token the client trades, with a TOTP or backup code, for the session
+  createTwoFactorChallenge(userId: string): string {
+    const token = randomBytes(24).toString("base64url");
+    this.twoFactorChallenges.set(token, {
+      userId,
+      expiresAt: Date.now() + this.codeTtlSeconds * 1000,
+    });
+    return token;
+  }
+
+  // User id of a live challenge; `consume` ends it
+  findTwoFactorChallenge(token: string, consume = false): string | null {
+    const challenge = this.twoFactorChallenges.get(token);
+    if (!challenge || challenge.expiresAt < Date.now()) {
+      return null;
+    }
+    if (consume) {
+      this.twoFactorChallenges.delete(token);
+    }
+    return challenge.userId;
+  }
+
+  userPasskeys(userId: string): MockPasskey[] {
+    return [...this.passkeys.values()].filter((passkey) => passkey.userId === userId);
+  }
+
+  // Remember the challenge of a passkey sign-in; returns its token
+  createPasskeyChallenge(challenge: string): string {
+    const token = randomBytes(24).toString("base64url");
+    this.passkeyChallenges.set(token, {
+      challenge,
+      expiresAt: Date.now() + this.codeTtlSeconds * 1000,
+    });
+    return token;
+  }
+
+  // Challenge of a live sign-in; each one can be answered once
+  consumePasskeyChallenge(token: string): string | null {
+    const pending = this.passkeyChallenges.get(token);
+    this.passkeyChallenges.delete(token);
+    if (!pending || pending.expiresAt < Date.now()) {
+      return null;
+    }
+    return pending.challenge;
+  }
+
+  createSession(
+    userId: string,
+    device: Pick<MockSession, "userAgent" | "ipAddress" | "loginType">
+  ): MockSession {
+    const now = new Date().toISOString();
+    const session: MockSession = {
+      id: randomUUID(),
+      userId,
+      refreshToken: randomBytes(32).toString("base64url"),
+      createdAt: now,
+      lastSeenAt: now,
+      ...device,
+    };
+    this.sessions.set(session.id, session);
+    return session;
+  }
+
+  findSessionByRefreshToken(refreshToken: string): MockSession | undefined {
+    return [...this.sessions.values()].find(
+      (session) => session.refreshToken === refreshToken
+    );
+  }
+
+  // Replace the session's refresh token; the old one stops working
+  rotateRefreshToken(session: MockSession): string {
+    session.refreshToken = randomBytes(32).toString("base64url");
+    session.lastSeenAt = new Date().toISOString();
+    return session.refreshToken;
+  }
+
+  userSessions(userId: string): MockSession[] {
+    return [...this.sessions.values()].filter((session) => session.userId === userId);
+  }
+
+  // Revoke every session of `userId`; returns how many were revoked
+  revokeUserSessions(userId: string): number {
+    const sessions = this.userSessions(userId);
+    sessions.forEach((session) => this.sessions.delete(session.id));
+    return sessions.length;
+  }
+
+  // Generate an OTP + link token for `email` and "send" it
+  sendCode(email: string, kind: OutboxMessage["kind"]): OutboxMessage {
+    const message: OutboxMessage = {
+      email,
+      kind,
+      code: randomInt(0, 1_000_000).toString().padStart(6, "0"),
+      token: randomBytes(24).toString("base64url"),
+      sentAt: Date.now(),
+    };
+    this.pending.set(`${kind}:${email}`, {
+      kind,
+      email,
+      code: message.code,
+      token: message.token,
+      expiresAt: Date.now() + this.codeTtlSeconds * 1000,
+    });
+    this.outbox.push(message);
+    return message;
+  }
+
+  lastSentAt(email: string, kind: OutboxMessage["kind"]): number | undefined {
+    return [...this.outbox]
+      .reverse()
+      .find((message) => message.email === email && message.kind === kind)?.sentAt;
+  }
+
+  // Why a link token can't be consumed
+  tokenState(kind: OutboxMessage["kind"], token: string): "expired" | "used" | "unknown" {
+    if (this.consumedTokens.has(token)) {
+      return "used";
+    }
+    const pending = [...this.pending.values()].find(
+      (entry) => entry.kind === kind && entry.token === token
+    );
+    return pending ? "expired" : "unknown";
+  }
+
+  // Consume a pending code for `email`, by OTP code or link token
+  consumeCode(
+    kind: OutboxMessage["kind"],
+    match: { email: string; code: string } | { token: string }
+  ): string | null {
+    for (const [key, pending] of this.pending) {
+      if (pending.kind !== kind || pending.expiresAt < Date.now()) {
+        continue;
+      }
+      const matches =
+        "token" in match
+          ? pending.token === match.token
+          : pending.email === match.email && pending.code === match.code;
+      if (matches) {
+        this.pending.delete(key);
+        this.consumedTokens.add(pending.token);
+        return pending.email;
+      }
+    }
+    return null;
+  }
+}
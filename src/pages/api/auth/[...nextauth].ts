@@ -1,76 +1,113 @@
-import NextAuth, { NextAuthOptions } from "next-auth";
+import type { NextApiRequest, NextApiResponse } from "next";
+import NextAuth, { type Account, NextAuthOptions, type Profile, type User } from "next-auth";
+import { getToken, type JWT } from "next-auth/jwt";
 import CredentialsProvider from "next-auth/providers/credentials";
+import AzureADProvider from "next-auth/providers/azure-ad";
+import GitHubProvider, { type GithubEmail } from "next-auth/providers/github";
 import GoogleProvider from "next-auth/providers/google";
-import { request as undiciRequest } from "undici";
-import { api, TokenManager } from "@/lib/api";
+import type { OAuthConfig, UserinfoEndpointHandler } from "next-auth/providers/oauth";
+import { createServerApiClient } from "@/lib/server/api";
+import {
+  AccessTokenVerificationError,
+  getTokenUserId,
+  verifyAccessToken,
+} from "@/lib/server/access-token";
+import { openSessionTicket, type SessionTicket } from "@/lib/server/session-ticket";
+import {
+  getSessionDeadlines,
+  getSessionExpiryReason,
+  SessionPolicyError,
+} from "@/lib/server/session-policy";
+import {
+  getAccessTokenExpiry,
+  getRefreshAt,
+  shouldRefreshAccessToken,
+} from "@/lib/server/token-expiry";
+import { ApiErrorCode, isApiError, isConflictError, isUnauthorizedError } from "@/lib/api-errors";
+import { getProviderLabel } from "@/lib/auth-providers";
+import { serverConfig } from "@/lib/config/server";
+import {
+  OAUTH_CONNECT_COOKIE,
+  parseOAuthConnectIntent,
+  type OAuthConnectIntent,
+} from "@/lib/oauth-connect";
+import { OAUTH_REMEMBER_ME_COOKIE } from "@/lib/oauth-remember-me";
+import type { AuthResponse } from "@/types/auth";
+// Don't hold up sign-out for long when the backend is slow (ms)
+const LOGOUT_TIMEOUT = 5000;
+// Where a provider sign-in asks for the 2FA code
+const TWO_FACTOR_PAGE = "/auth/two-factor";
+// Where connecting a provider returns to, with the outcome in the query
+const CONNECTED_ACCOUNTS_PAGE = "/settings/connected-accounts";
+
 export const authOptions: NextAuthOptions = {
   providers: [
-    GoogleProvider({
-      clientId: process.env.GOOGLE_CLIENT_ID!,
-      clientSecret: process.env.GOOGLE_CLIENT_SECRET!,
-    }),
+    // External providers, each enabled by its environment variables
+    ...(serverConfig.oauth.google ? [GoogleProvider(serverConfig.oauth.google)] : []),
+    ...(serverConfig.oauth.github
+      ? [GitHubProvider({ ...serverConfig.oauth.github, userinfo: githubUserinfo() })]
+      : []),
+    ...(serverConfig.oauth.azureAd
+      ? [AzureADProvider({ ...serverConfig.oauth.azureAd, name: "Microsoft" })]
+      : []),
+    ...(serverConfig.oauth.oidc ? [OIDCProvider(serverConfig.oauth.oidc)] : []),
     CredentialsProvider({
       id: "credentials",
       name: "credentials",
       credentials: {
         email: { label: "Email", type: "email" },
         password: { label: "Password", type: "password" },
-        accessToken: { label: "Access Token", type: "text" },
-        refreshToken: { label: "Refresh Token", type: "text" },
+        // Sealed tokens from a sign-in response that went through /api/proxy
+        sessionTicket: { label: "Session Ticket", type: "text" },
+        // "false" for a session that ends with the browser; anything else
+        // (including pages that don't send it) keeps the long session
+        rememberMe: { label: "Remember me", type: "checkbox" },
       },
       async authorize(credentials) {
+        const rememberMe = credentials?.rememberMe !== "false";
         try {
-          // If accessToken is provided (from OTP verification), use it directly
-          if (credentials?.accessToken) {
-            try {
-              // Decode JWT token to get user info (no need to call API)
-              const tokenParts = credentials.accessToken.split('.');
-              if (tokenParts.length !== 3) {
-                console.error("Invalid JWT token format");
-                return null;
-              }
-
-              // Decode JWT payload (base64url) - Node.js environment
-              let base64 = tokenParts[1].replace(/-/g, '+').replace(/_/g, '/');
-              // Add padding if needed
-              while (base64.length % 4) {
-                base64 += '=';
-              }
-
-              // Use Buffer if available (Node.js), otherwise use atob (browser)
-              let payloadStr: string;
-              if (typeof Buffer !== 'undefined') {
-                payloadStr = Buffer.from(base64, 'base64').toString();
-              } else {
-                payloadStr = atob(base64);
-              }
-
-              const payload = JSON.parse(payloadStr);
-
-              // Extract user info from JWT payload
-              const userId = payload.userId || payload.sub || "";
-              const email = payload.email || "";
-              const role = payload.role || "member";
-              
-              // Use email prefix as name (can be enhanced later)
-              const userName = email.split("@")[0] || "User";
+          // Tokens issued by OTP verification, email verification or password reset
+          if (credentials?.sessionTicket) {
+            const verified = await verifySessionTicket(credentials.sessionTicket);
+            if (!verified) {
+              console.error("Invalid or expired session ticket");
+              return null;
+            }
+            const { ticket, claims } = verified;
+            const userId = getTokenUserId(claims);
 
+            if (ticket.user) {
               return {
-                id: userId,
-                email: email,
-                name: userName,
-                image: "",
-                accessToken: credentials.accessToken,
-                refreshToken: credentials.refreshToken || "",
-                isVerified: true, // If token exists, email is verified
-                userType: role,
-                loginType: "credential",
+                id: ticket.user.id,
+                email: ticket.user.email,
+                name: ticket.user.full_name,
+                image: ticket.user.profile_photo || "",
+                accessToken: ticket.accessToken,
+                refreshToken: ticket.refreshToken,
+                expiresIn: ticket.expiresIn,
+                rememberMe,
+                isVerified: ticket.user.is_verified,
+                userType: ticket.user.user_type,
+                loginType: ticket.user.login_type,
               };
-            } catch (error) {
-              console.error("Token validation failed:", error);
-              console.error("Error details:", error instanceof Error ? error.message : String(error));
-              return null;
             }
+
+            // No user in the response: take it from the verified claims
+            const email = claims.email || "";
+            return {
+              id: userId || "",
+              email: email,
+              // Use email prefix as name (can be enhanced later)
+              name: email.split("@")[0] || "User",
+              image: "",
+              accessToken: ticket.accessToken,
+              refreshToken: ticket.refreshToken,
+              expiresIn: ticket.expiresIn,
+              rememberMe,
+              isVerified: true, // If token exists, email is verified
+              userType: claims.role || "member",
+              loginType: "credential",
+            };
           }
 
           // Regular login with email/password
@@ -78,7 +115,7 @@ export const authOptions: NextAuthOptions = {
             return null;
           }
 
-          const authResponse = await api.login({
+          const authResponse = await createServerApiClient().login({
             email: credentials.email,
             password: credentials.password,
           });
@@ -95,26 +132,15 @@ export const authOptions: NextAuthOptions = {
             throw error;
           }
 
-          // Store tokens in localStorage
-          TokenManager.setTokens(
-            authResponse.access_token,
-            authResponse.refresh_token
-          );
-
-          return {
-            id: authResponse.user.id,
-            email: authResponse.user.email,
-            name: authResponse.user.full_name,
-            image: authResponse.user.profile_photo || "",
-            accessToken: authResponse.access_token,
-            refreshToken: authResponse.refresh_token,
-            isVerified: authResponse.user.is_verified,
-            userType: authResponse.user.user_type,
-            loginType: authResponse.user.login_type,
-          };
+          return await userFromAuthResponse(authResponse, rememberMe);
         } catch (error) {
           console.error("Authentication error:", error);
 
+          // Never mint a session from a token we couldn't verify
+          if (error instanceof AccessTokenVerificationError) {
+            return null;
+          }
+
           // Check if it's a specific error from our backend and throw it
           if (error instanceof Error) {
             // Pass through the specific error message from our backend
@@ -126,41 +152,117 @@ export const authOptions: NextAuthOptions = {
         }
       },
     }),
+    // Passwordless sign-in: the backend checks the WebAuthn assertion and
+    // answers with tokens like a password login
+    CredentialsProvider({
+      id: "passkey",
+      name: "passkey",
+      credentials: {
+        challengeToken: { label: "Challenge Token", type: "text" },
+        // AuthenticationResponseJSON from startAuthentication, as JSON
+        credential: { label: "Credential", type: "text" },
+        rememberMe: { label: "Remember me", type: "checkbox" },
+      },
+      async authorize(credentials) {
+        if (!credentials?.challengeToken || !credentials?.credential) {
+          return null;
+        }
+        try {
+          const authResponse = await createServerApiClient().verifyPasskeyLogin({
+            challenge_token: credentials.challengeToken,
+            credential: JSON.parse(credentials.credential),
+          });
+          return await userFromAuthResponse(
+            authResponse,
+            credentials.rememberMe !== "false"
+          );
+        } catch (error) {
+          // Unknown passkey, expired challenge or a token we couldn't verify
+          console.error("Passkey authentication error:", error);
+          return null;
+        }
+      },
+    }),
   ],
   callbacks: {
-    async signIn({ user, account }) {
-      // Handle Google OAuth
-      if (account?.provider === "google") {
+    async signIn({ user, account, profile }) {
+      // External providers: trade the identity for backend tokens
+      if (account?.type === "oauth") {
+        // The backend matches accounts by email, so it must be one the
+        // provider has verified
+        if (!user.email || !hasVerifiedEmail(account.provider, profile)) {
+          console.error(`${account.provider} sign-in rejected: no verified email`);
+          return false;
+        }
+
         try {
-          const authResponse = await api.googleOAuth({
-            email: user.email!,
-            full_name: user.name || user.email!.split("@")[0],
-            profile_photo: user.image || "",
-            google_id: account.providerAccountId,
+          const avatar = toAvatarUrl(user.image);
+          const authResponse = await createServerApiClient().oauthSignIn({
+            provider: account.provider,
+            provider_account_id: account.providerAccountId,
+            email: user.email,
+            name: user.name || user.email.split("@")[0],
+            avatar,
           });
+          await verifyAccessToken(authResponse.access_token);
 
           // Store the tokens in the user object for the JWT callback
           user.accessToken = authResponse.access_token;
           user.refreshToken = authResponse.refresh_token;
+          user.expiresIn = authResponse.expires_in;
           user.isVerified = authResponse.user.is_verified;
           user.userType = authResponse.user.user_type;
           user.loginType = authResponse.user.login_type;
-          user.image = authResponse.user.profile_photo || user.image;
+          user.image = authResponse.user.profile_photo || avatar;
 
           return true;
         } catch (error) {
-          console.error("Google OAuth error:", error);
+          console.error(`${account.provider} sign-in error:`, error);
 
-          // Check if it's a specific error from our backend
-          if (error instanceof Error) {
-            // Map error messages for toast display
-            if (error.message.includes("already registered with password") || 
-                error.message.includes("already registered with credentials")) {
+          if (error instanceof AccessTokenVerificationError) {
+            return false;
+          }
+
+          // Accounts with 2FA confirm a code before the session starts
+          if (isUnauthorizedError(error) && error.details.requires_two_factor) {
+            const params = new URLSearchParams({
+              token: String(error.details.two_factor_token),
+              provider: account.provider,
+            });
+            return `${TWO_FACTOR_PAGE}?${params}`;
+          }
+
+          // Map backend conflicts to messages for toast display
+          if (isConflictError(error)) {
+            // Same email as an existing account: the user can link the
+            // provider to it after proving they own it
+            if (
+              (error.code === ApiErrorCode.AccountExistsWithPassword ||
+                error.code === ApiErrorCode.AccountExistsWithOAuth) &&
+              typeof error.details.link_token === "string"
+            ) {
+              const params = new URLSearchParams({
+                token: error.details.link_token,
+                email: user.email,
+                provider: account.provider,
+              });
+              // Provider the account already signs in with, if not a password
+              if (typeof error.details.provider === "string") {
+                params.set("via", error.details.provider);
+              }
+              return `/auth/link-account?${params}`;
+            }
+            if (error.code === ApiErrorCode.AccountExistsWithPassword) {
               throw new Error("Email sudah terdaftar dengan password. Silakan login dengan email dan password.");
             }
-            if (error.message.includes("different Google account")) {
-              throw new Error("Email sudah terdaftar dengan akun Google yang berbeda.");
+            if (error.code === ApiErrorCode.OAuthAccountMismatch) {
+              throw new Error(
+                `Email sudah terdaftar dengan akun ${getProviderLabel(account.provider)} yang berbeda.`
+              );
             }
+          }
+
+          if (error instanceof Error) {
             // Re-throw with original message for toast display
             throw error;
           }
@@ -170,11 +272,20 @@ export const authOptions: NextAuthOptions = {
       }
       return true;
     },
-    async jwt({ token, user, account, trigger }) {
+    async jwt({ token, user, account, trigger, session }) {
+      const now = Date.now();
+
       // Initial sign in
       if (account && user) {
         return {
           ...token,
+          signedInAt: now,
+          lastActivityAt: now,
+          // Time of the last credential check, for step-up re-authentication
+          authTime: now,
+          // Credentials providers always set it; OAuth without a choice
+          // keeps the persistent session it always had
+          rememberMe: user.rememberMe ?? true,
           sub: user.id,
           accessToken: user.accessToken,
           refreshToken: user.refreshToken,
@@ -182,49 +293,67 @@ export const authOptions: NextAuthOptions = {
           userType: user.userType,
           loginType: user.loginType,
           image: user.image,
-          accessTokenExpires: Date.now() + 15 * 60 * 1000, // 15 minutes
+          accessTokenExpires: getAccessTokenExpiry(user.accessToken, user.expiresIn),
         };
       }
 
-      // Handle session update trigger (when update() is called)
-      if (trigger === "update" && token.accessToken) {
-        try {
-          // Fetch updated user data from backend
-          const backendUrl = process.env.BACKEND_URL || process.env.NEXT_PUBLIC_BACKEND_URL || "http://localhost:5000";
-          const userResponse = await undiciRequest(`${backendUrl}/api/v1/auth/me`, {
-            method: "GET",
-            headers: {
-              Authorization: `Bearer ${token.accessToken}`,
-            },
-          });
+      // Enforced on every session read, so an idle tab or a copied cookie
+      // can't outlive the policy. Throwing makes NextAuth clear the cookie
+      token.signedInAt ??= now;
+      token.lastActivityAt ??= now;
+      const expiredBy = getSessionExpiryReason(token, now);
+      if (expiredBy) {
+        await revokeRefreshToken(token);
+        throw new SessionPolicyError(expiredBy);
+      }
 
-          if (userResponse.statusCode >= 200 && userResponse.statusCode < 300) {
-            const userData = (await userResponse.body.json()) as {
-              data?: { user?: Record<string, unknown> };
-              user?: Record<string, unknown>;
-            };
-            const updatedUser = userData.data?.user || userData.user;
-            if (updatedUser) {
-              return {
-                ...token,
-                image: (updatedUser.profile_photo as string) || (updatedUser.profilePic as string) || token.image,
-                // Update name/username if changed
-                name: (updatedUser.username as string) || (updatedUser.full_name as string) || token.name,
-              };
-            }
-          }
+      // The browser reports user activity; this is what resets the idle
+      // timeout, not background session reads
+      if (trigger === "update" && session?.activity === true) {
+        token.lastActivityAt = now;
+      }
+
+      // Step-up re-authentication from the re-auth dialog
+      if (trigger === "update" && typeof session?.reauthTicket === "string") {
+        return reauthenticate(token, session.reauthTicket, now);
+      }
+
+      // Forced refresh: the API client after a 401, or ApiProvider shortly
+      // before the access token expires
+      if (trigger === "update" && session?.refresh) {
+        const refreshed = await refreshAccessToken(token);
+        return {
+          ...token,
+          ...refreshed,
+          sub: token.sub || "",
+        } as typeof token;
+      }
+
+      // Profile edited: re-read it from the backend (ApiProvider.refreshProfile)
+      if (trigger === "update" && session?.profile === true && token.accessToken) {
+        try {
+          // Fetch updated user data from backend with this user's token
+          const { user: updatedUser } = await createServerApiClient(
+            token.accessToken
+          ).getCurrentUser();
+          return {
+            ...token,
+            image: updatedUser.profile_photo || token.image,
+            // Update name/username if changed
+            name: updatedUser.username || updatedUser.full_name || token.name,
+          };
         } catch (error) {
           console.error("Failed to fetch updated user data:", error);
           // Continue with existing token if fetch fails
         }
       }
 
-      // Return previous token if the access token has not expired yet
-      if (token.accessTokenExpires && Date.now() < (token.accessTokenExpires as number)) {
+      // Return previous token until it is within the refresh margin of expiring
+      if (!shouldRefreshAccessToken(token.accessTokenExpires)) {
         return token;
       }
 
-      // Access token has expired, try to update it
+      // Access token is about to expire, try to update it
       const refreshed = await refreshAccessToken(token);
       
       // Ensure all required JWT fields are present
@@ -243,29 +372,219 @@ export const authOptions: NextAuthOptions = {
         session.user.role = token.userType as string; // Add role alias
         session.user.username = (token.name as string) || session.user.name; // Add username alias
       }
-      session.accessToken = token.accessToken as string;
-      session.refreshToken = token.refreshToken as string;
+      // Tokens stay in the encrypted cookie; /api/proxy attaches them
+      if (token.accessTokenExpires) {
+        session.refreshAt = getRefreshAt(token.accessTokenExpires);
+      }
+      if (token.signedInAt && token.lastActivityAt) {
+        session.policy = {
+          ...getSessionDeadlines({
+            ...token,
+            signedInAt: token.signedInAt,
+            lastActivityAt: token.lastActivityAt,
+          }),
+          idleWarningSeconds: serverConfig.session.idleWarningSeconds,
+          serverNow: Date.now(),
+        };
+      }
+      session.authTime = token.authTime;
+      // Refresh failed: the client asks the user to sign in again
+      session.error = token.error;
       session.isVerified = token.isVerified as boolean;
       session.userType = token.userType as string;
       session.loginType = token.loginType as string;
       return session;
     },
   },
+  events: {
+    async signOut({ token }) {
+      if (token) {
+        await revokeRefreshToken(token);
+      }
+    },
+  },
   pages: {
     signIn: "/auth/login",
     error: "/auth/login",
   },
   session: {
     strategy: "jwt",
-    maxAge: 7 * 24 * 60 * 60, // 7 days
+    // Longest possible lifetime; the jwt callback enforces the one that
+    // applies to each session from its sign-in time
+    maxAge: serverConfig.session.rememberMeMaxAgeSeconds,
   },
   jwt: {
-    maxAge: 7 * 24 * 60 * 60, // 7 days
+    maxAge: serverConfig.session.rememberMeMaxAgeSeconds,
   },
-  secret: process.env.NEXTAUTH_SECRET,
-  debug: process.env.NODE_ENV === "development",
+  secret: serverConfig.nextAuthSecret,
+  debug: serverConfig.isDevelopment,
 };
 
+// Any OpenID Connect provider, configured from its discovery document
+function OIDCProvider(options: {
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+  name: string;
+}): OAuthConfig<OIDCProfile> {
+  return {
+    id: "oidc",
+    name: options.name,
+    type: "oauth",
+    wellKnown: `${options.issuer}/.well-known/openid-configuration`,
+    authorization: { params: { scope: "openid email profile" } },
+    idToken: true,
+    checks: ["pkce", "state"],
+    clientId: options.clientId,
+    clientSecret: options.clientSecret,
+    profile(profile) {
+      return {
+        id: profile.sub,
+        name: profile.name ?? profile.preferred_username ?? null,
+        email: profile.email ?? null,
+        image: profile.picture ?? null,
+      };
+    },
+  };
+}
+
+// GitHub's profile email is whatever the user made public, verified or not.
+// Take the primary address instead, and only once GitHub has verified it
+function githubUserinfo(): UserinfoEndpointHandler {
+  return {
+    url: "https://api.github.com/user",
+    async request({ client, tokens }) {
+      const profile = await client.userinfo(tokens.access_token ?? "");
+      const response = await fetch("https://api.github.com/user/emails", {
+        headers: { Authorization: `Bearer ${tokens.access_token}` },
+      });
+      const emails: GithubEmail[] = response.ok ? await response.json() : [];
+      const primary = emails.find((email) => email.primary && email.verified);
+      return { ...profile, email: primary?.email, email_verified: !!primary };
+    },
+  };
+}
+
+// Whether the provider vouches for the profile's email. Azure AD has no
+// email_verified; its optional xms_edov claim says the email's domain is
+// verified in the tenant
+function hasVerifiedEmail(provider: string, profile: unknown): boolean {
+  const claims = profile as { email_verified?: unknown; xms_edov?: unknown } | undefined;
+  return (
+    claims?.email_verified === true || (provider === "azure-ad" && claims?.xms_edov === true)
+  );
+}
+
+interface OIDCProfile extends Record<string, unknown> {
+  sub: string;
+  name?: string;
+  preferred_username?: string;
+  email?: string;
+  email_verified?: boolean;
+  picture?: string;
+}
+
+// Avatar to hand to the backend. Some providers (Azure AD) give the photo
+// as a data: URL, too big for the backend profile and the session cookie
+function toAvatarUrl(image?: string | null) {
+  return image && /^https?:\/\//.test(image) ? image : "";
+}
+
+// NextAuth user for a sign-in response with backend tokens. Null without
+// both tokens; throws when the access token doesn't verify
+async function userFromAuthResponse(authResponse: AuthResponse, rememberMe: boolean) {
+  if (!authResponse.access_token || !authResponse.refresh_token) {
+    return null;
+  }
+  await verifyAccessToken(authResponse.access_token);
+
+  return {
+    id: authResponse.user.id,
+    email: authResponse.user.email,
+    name: authResponse.user.full_name,
+    image: authResponse.user.profile_photo || "",
+    accessToken: authResponse.access_token,
+    refreshToken: authResponse.refresh_token,
+    expiresIn: authResponse.expires_in,
+    rememberMe,
+    isVerified: authResponse.user.is_verified,
+    userType: authResponse.user.user_type,
+    loginType: authResponse.user.login_type,
+  };
+}
+
+// Open a session ticket and check the token inside: the ticket is ours, but
+// the token must still be genuine and belong to the ticket's user. Null when
+// the ticket is invalid or expired
+async function verifySessionTicket(sealed: string) {
+  const ticket = await openSessionTicket(sealed);
+  if (!ticket) {
+    return null;
+  }
+  return { ticket, claims: await verifyTicketToken(ticket) };
+}
+
+// Claims of the access token in an opened ticket, checked against its user
+async function verifyTicketToken(ticket: SessionTicket) {
+  const claims = await verifyAccessToken(ticket.accessToken);
+  if (ticket.user && ticket.user.id !== claims.sub && ticket.user.id !== claims.userId) {
+    throw new AccessTokenVerificationError("Access token was issued for a different user");
+  }
+  return claims;
+}
+
+// A ticket from a fresh password login by the same user proves a recent
+// credential check. Anything else leaves the token (and `authTime`) as is,
+// which the dialog reports as a failure
+async function reauthenticate(token: JWT, sealedTicket: string, now: number): Promise<JWT> {
+  const ticket = await openSessionTicket(sealedTicket).catch(() => null);
+  if (!ticket) {
+    console.error("Re-authentication rejected: invalid or expired ticket");
+    return token;
+  }
+
+  try {
+    const claims = await verifyTicketToken(ticket);
+    if (getTokenUserId(claims) !== token.sub) {
+      console.error("Re-authentication rejected: different user");
+      // Nobody will use the backend session the login opened
+      await revokeRefreshToken(ticket);
+      return token;
+    }
+
+    // The login opened a new backend session; keep it, close the old one
+    await revokeRefreshToken(token);
+    return {
+      ...token,
+      accessToken: ticket.accessToken,
+      refreshToken: ticket.refreshToken,
+      accessTokenExpires: getAccessTokenExpiry(ticket.accessToken, ticket.expiresIn, now),
+      error: undefined,
+      authTime: now,
+      lastActivityAt: now,
+    };
+  } catch (error) {
+    console.error("Re-authentication failed:", error);
+    await revokeRefreshToken(ticket);
+    return token;
+  }
+}
+
+// Revoke the backend refresh token. Sign-out must complete even when the
+// backend is unreachable, so failures are only logged
+async function revokeRefreshToken(token: { accessToken?: string; refreshToken?: string }) {
+  if (!token.refreshToken) {
+    return;
+  }
+  try {
+    await createServerApiClient(token.accessToken).logout(token.refreshToken, {
+      timeout: LOGOUT_TIMEOUT,
+    });
+  } catch (error) {
+    console.error("Failed to revoke refresh token on sign-out:", error);
+  }
+}
+
 async function refreshAccessToken(token: {
   refreshToken?: string;
   accessTokenExpires?: number;
@@ -275,36 +594,237 @@ async function refreshAccessToken(token: {
     if (!token.refreshToken) {
       return {
         ...token,
-        error: "RefreshAccessTokenError",
+        error: "RefreshAccessTokenError" as const,
       };
     }
 
-    const refreshedTokens = await api.refreshToken(token.refreshToken);
-
-    if (!refreshedTokens) {
-      return {
-        ...token,
-        error: "RefreshAccessTokenError",
-      };
-    }
+    // Rejects a response without an access token (SchemaValidationError),
+    // which ends up as RefreshAccessTokenError below
+    const refreshedTokens = await createServerApiClient().refreshToken(
+      token.refreshToken
+    );
 
     return {
       ...token,
       accessToken: refreshedTokens.access_token,
-      accessTokenExpires: Date.now() + refreshedTokens.expires_in * 1000,
+      accessTokenExpires: getAccessTokenExpiry(
+        refreshedTokens.access_token,
+        refreshedTokens.expires_in
+      ),
+      // Kept when the backend doesn't rotate refresh tokens
       refreshToken: refreshedTokens.refresh_token ?? token.refreshToken,
       isVerified: refreshedTokens.user?.is_verified ?? true,
       userType: refreshedTokens.user?.user_type ?? "member",
       loginType: refreshedTokens.user?.login_type ?? "credential",
       image: refreshedTokens.user?.profile_photo || token.image || "",
+      error: undefined,
     };
   } catch (error) {
     console.error("Error refreshing access token:", error);
     return {
       ...token,
-      error: "RefreshAccessTokenError",
+      error: "RefreshAccessTokenError" as const,
     };
   }
 }
 
-export default NextAuth(authOptions);
+// Set on sign-in without "Remember me". While present, session token cookies
+// are sent without an expiry so the browser drops them when it closes
+const SESSION_ONLY_COOKIE = "auth.session-only";
+const SESSION_TOKEN_COOKIE = /^(__Secure-)?next-auth\.session-token(\.\d+)?=[^;]/;
+
+// Turn a persistent session token cookie into a browser-session one.
+// Deletions (empty value) are left alone
+function withoutExpiry(cookie: string): string {
+  if (!SESSION_TOKEN_COOKIE.test(cookie)) {
+    return cookie;
+  }
+  return cookie
+    .split(/;\s*/)
+    .filter((attribute) => !/^(expires|max-age)=/i.test(attribute))
+    .join("; ");
+}
+
+// Providers whose callback is our own sign-in form, posted with "Remember me"
+const CREDENTIALS_PROVIDER_IDS = ["credentials", "passkey"];
+
+// "Remember me" of a sign-in callback: posted with the credentials and
+// passkey forms, carried in a cookie through an OAuth redirect (see
+// OAuthButtons). Undefined when the request signs nobody in, or when an
+// OAuth sign-in made no choice (re-auth, connecting an account)
+function getSignInRememberMe(req: NextApiRequest): boolean | undefined {
+  const [action, providerId] = ([] as string[]).concat(req.query.nextauth ?? []);
+  if (action !== "callback") {
+    return undefined;
+  }
+  if (CREDENTIALS_PROVIDER_IDS.includes(providerId)) {
+    return req.method === "POST" ? req.body?.rememberMe !== "false" : undefined;
+  }
+  const choice = req.cookies[OAUTH_REMEMBER_ME_COOKIE];
+  return choice === "1" ? true : choice === "0" ? false : undefined;
+}
+
+// Link the provider account from a connect on the settings page to the
+// signed-in user. Redirecting back instead of signing in leaves the current
+// session as it is
+async function connectProvider(
+  previous: JWT,
+  connectToken: string,
+  { user, account, profile }: { user: User; account: Account; profile?: Profile }
+): Promise<string> {
+  const params = new URLSearchParams({ provider: account.provider });
+  // Shown on the connected accounts page, so held to the sign-in rule
+  if (!user.email || !hasVerifiedEmail(account.provider, profile)) {
+    params.set("error", ApiErrorCode.EmailNotVerified);
+    return `${CONNECTED_ACCOUNTS_PAGE}?${params}`;
+  }
+  try {
+    await createServerApiClient(previous.accessToken).oauthConnect({
+      connect_token: connectToken,
+      provider: account.provider,
+      provider_account_id: account.providerAccountId,
+      email: user.email,
+    });
+    params.set("connected", "1");
+  } catch (error) {
+    console.error(`${account.provider} connect error:`, error);
+    params.set("error", isApiError(error) && error.code ? error.code : "CONNECT_FAILED");
+  }
+  return `${CONNECTED_ACCOUNTS_PAGE}?${params}`;
+}
+
+interface SignInContext {
+  // The OAuth "Remember me" choice (credentials providers set `rememberMe`
+  // in authorize)
+  rememberMe: boolean | undefined;
+  // The session cookie being signed in over, which NextAuth doesn't pass to jwt
+  previous: JWT | null;
+  // Where the sign-in was headed
+  callbackUrl: string | undefined;
+  // Set when the user is connecting a provider from the settings page
+  connect: OAuthConnectIntent | null;
+}
+
+// What a sign-in callback can't see on its own
+export function withSignInContext({
+  rememberMe,
+  previous,
+  callbackUrl,
+  connect,
+}: SignInContext): NextAuthOptions {
+  const { signIn, jwt } = authOptions.callbacks ?? {};
+  return {
+    ...authOptions,
+    callbacks: {
+      ...authOptions.callbacks,
+      async signIn(params) {
+        if (
+          connect &&
+          previous &&
+          !getSessionExpiryReason(previous) &&
+          params.account?.type === "oauth" &&
+          params.account.provider === connect.provider
+        ) {
+          return connectProvider(previous, connect.connectToken, {
+            user: params.user,
+            account: params.account,
+            profile: params.profile,
+          });
+        }
+
+        params.user.rememberMe ??= rememberMe;
+        const result = signIn ? await signIn(params) : true;
+        if (typeof result !== "string" || !result.startsWith(`${TWO_FACTOR_PAGE}?`)) {
+          return result;
+        }
+        // The 2FA page finishes through the credentials provider: pass on the
+        // choice (the current session's on re-auth) and the destination
+        const context = new URLSearchParams({
+          rememberMe: String(params.user.rememberMe ?? previous?.rememberMe ?? true),
+        });
+        if (callbackUrl) {
+          context.set("callbackUrl", callbackUrl);
+        }
+        return `${result}&${context}`;
+      },
+      async jwt(params) {
+        const token = jwt ? await jwt(params) : params.token;
+        if (!params.account || !previous) {
+          return token;
+        }
+        // Signed in again over a session, e.g. provider re-auth: close the
+        // old backend session. The same user keeps the session's lifetime,
+        // as with the re-auth dialog's password check
+        await revokeRefreshToken(previous);
+        if (
+          previous.sub !== token.sub ||
+          !previous.signedInAt ||
+          getSessionExpiryReason(previous)
+        ) {
+          return token;
+        }
+        return {
+          ...token,
+          signedInAt: previous.signedInAt,
+          rememberMe: params.user.rememberMe ?? previous.rememberMe ?? token.rememberMe,
+        };
+      },
+    },
+  };
+}
+
+export default async function auth(req: NextApiRequest, res: NextApiResponse) {
+  const action = ([] as string[]).concat(req.query.nextauth ?? [])[0];
+  const rememberMe = getSignInRememberMe(req);
+  const isSignIn = rememberMe !== undefined;
+  const sessionOnly = isSignIn ? !rememberMe : req.cookies[SESSION_ONLY_COOKIE] === "1";
+  // Same rule NextAuth uses for its own cookies
+  const secure = serverConfig.nextAuthUrl?.startsWith("https://") ?? false;
+  const cookies: string[] = [];
+
+  if (isSignIn || (action === "signout" && req.method === "POST")) {
+    cookies.push(
+      `${SESSION_ONLY_COOKIE}=${isSignIn && sessionOnly ? "1" : ""}; Path=/; HttpOnly; SameSite=Lax` +
+        (isSignIn && sessionOnly ? "" : "; Max-Age=0") +
+        (secure ? "; Secure" : "")
+    );
+  }
+  // The OAuth choice and connect intent are used once
+  for (const name of [OAUTH_REMEMBER_ME_COOKIE, OAUTH_CONNECT_COOKIE]) {
+    if (req.cookies[name] !== undefined && action === "callback") {
+      cookies.push(`${name}=; Path=/; Max-Age=0; SameSite=Lax` + (secure ? "; Secure" : ""));
+    }
+  }
+  if (cookies.length) {
+    res.setHeader("Set-Cookie", cookies);
+  }
+
+  if (sessionOnly) {
+    const setHeader = res.setHeader.bind(res);
+    res.setHeader = (name, value) => {
+      if (name.toLowerCase() !== "set-cookie" || typeof value === "number") {
+        return setHeader(name, value);
+      }
+      return setHeader(
+        name,
+        typeof value === "string" ? withoutExpiry(value) : value.map(withoutExpiry)
+      );
+    };
+  }
+
+  if (action !== "callback") {
+    return NextAuth(req, res, authOptions);
+  }
+  const previous = await getToken({ req, secret: serverConfig.nextAuthSecret });
+  return NextAuth(
+    req,
+    res,
+    withSignInContext({
+      rememberMe,
+      previous,
+      // NextAuth keeps the sign-in's callbackUrl in its own cookie
+      callbackUrl: req.cookies[`${secure ? "__Secure-" : ""}next-auth.callback-url`],
+      connect: parseOAuthConnectIntent(req.cookies[OAUTH_CONNECT_COOKIE]),
+    })
+  );
+}
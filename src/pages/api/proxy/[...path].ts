@@ -0,0 +1,181 @@
+// Backend-for-frontend proxy: the browser's ApiClient talks to this route
+// on its own origin, and the access token is attached here from the
+// encrypted NextAuth session cookie. Tokens in sign-in responses are sealed
+// into a `session_ticket`, so raw tokens never reach browser JavaScript.
+import type { NextApiRequest, NextApiResponse } from "next";
+import { serverConfig } from "@/lib/config/server";
+import { getSessionToken } from "@/lib/server/api";
+import { requireRecentAuth, SENSITIVE_ACTION_MAX_AGE_SECONDS } from "@/lib/server/recent-auth";
+import { sealSessionTicket, type SessionTicket } from "@/lib/server/session-ticket";
+
+export const config = {
+  api: {
+    // Forward the raw body instead of re-serializing a parsed one
+    bodyParser: false,
+  },
+};
+
+// Only the versioned backend API is reachable through the proxy
+const ALLOWED_PREFIX = "api/v1/";
+const UPSTREAM_TIMEOUT = 15000;
+// Request headers passed through to the backend
+const FORWARDED_REQUEST_HEADERS = ["content-type", "accept", "accept-language", "user-agent"];
+// Response headers passed back to the browser
+const FORWARDED_RESPONSE_HEADERS = ["content-type", "retry-after"];
+// Actions that need a recent credential check on top of the session: ending
+// sessions and anything that changes how the account signs in. The client
+// opens the re-auth dialog on 403 REAUTH_REQUIRED and retries
+const SENSITIVE_ROUTES: [method: string, path: RegExp][] = [
+  ["DELETE", /^api\/v1\/auth\/sessions\/[^/]+$/],
+  ["POST", /^api\/v1\/auth\/logout-all$/],
+  ["POST", /^api\/v1\/auth\/password$/],
+  ["POST", /^api\/v1\/auth\/identities$/],
+  ["POST", /^api\/v1\/auth\/identities\/connect-token$/],
+  ["DELETE", /^api\/v1\/auth\/identities\/[^/]+$/],
+  ["POST", /^api\/v1\/auth\/2fa\/(setup|enable|disable)$/],
+  ["POST", /^api\/v1\/auth\/passkeys\/register\/(options|verify)$/],
+  ["DELETE", /^api\/v1\/auth\/passkeys\/[^/]+$/],
+];
+// Called by the NextAuth callbacks only: the backend trusts them to have
+// checked the provider sign-in, so the browser must not reach them
+const SERVER_ONLY_ROUTES = [/^api\/v1\/auth\/oauth(\/connect)?$/];
+const requireSensitiveActionAuth = requireRecentAuth(SENSITIVE_ACTION_MAX_AGE_SECONDS);
+
+type ProxyError = { success: false; error: { code: string; message: string } };
+
+function sendError(res: NextApiResponse, status: number, code: string, message: string) {
+  res.status(status).json({ success: false, error: { code, message } } satisfies ProxyError);
+}
+
+// The backend only accepts JSON, so the body is forwarded as text
+async function readBody(req: NextApiRequest): Promise<string | undefined> {
+  if (req.method === "GET" || req.method === "HEAD") {
+    return undefined;
+  }
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(typeof chunk === "string" ? Buffer.from(chunk) : chunk);
+  }
+  return chunks.length ? Buffer.concat(chunks).toString("utf8") : undefined;
+}
+
+// Replace backend tokens in a response body (bare or `{ data }` envelope)
+// with a sealed session ticket
+async function sealTokens(body: unknown): Promise<unknown> {
+  if (typeof body !== "object" || body === null) {
+    return body;
+  }
+  const record = body as Record<string, unknown>;
+
+  if (typeof record.data === "object" && record.data !== null) {
+    return { ...record, data: await sealTokens(record.data) };
+  }
+
+  const { access_token, refresh_token, ...rest } = record;
+  if (typeof access_token !== "string") {
+    return body;
+  }
+  return {
+    ...rest,
+    session_ticket: await sealSessionTicket({
+      accessToken: access_token,
+      refreshToken: typeof refresh_token === "string" ? refresh_token : "",
+      expiresIn: typeof rest.expires_in === "number" ? rest.expires_in : undefined,
+      user: rest.user as SessionTicket["user"],
+    }),
+  };
+}
+
+// Send the request on to the backend and relay its answer
+async function forward(req: NextApiRequest, res: NextApiResponse, path: string) {
+  const search = req.url?.includes("?") ? req.url.slice(req.url.indexOf("?")) : "";
+  // Re-encode the decoded segments, or a backslash, "?" or "#" in one would
+  // change the URL the backend sees
+  const encodedPath = path.split("/").map(encodeURIComponent).join("/");
+  const target = `${serverConfig.backendUrl.replace(/\/$/, "")}/${encodedPath}${search}`;
+
+  const headers: Record<string, string> = {};
+  for (const name of FORWARDED_REQUEST_HEADERS) {
+    const value = req.headers[name];
+    if (typeof value === "string") {
+      headers[name] = value;
+    }
+  }
+
+  // Let the backend see the browser's address, e.g. for its session list
+  const forwardedFor = req.headers["x-forwarded-for"];
+  const clientAddress = req.socket.remoteAddress;
+  const forwardedChain = [
+    typeof forwardedFor === "string" ? forwardedFor : undefined,
+    clientAddress,
+  ].filter(Boolean);
+  if (forwardedChain.length) {
+    headers["x-forwarded-for"] = forwardedChain.join(", ");
+  }
+
+  // After a failed refresh or once the session policy ended the session the
+  // token is dead; protected endpoints answer 401
+  const token = await getSessionToken(req);
+  if (token) {
+    headers.Authorization = `Bearer ${token.accessToken}`;
+  }
+
+  let upstream: Response;
+  try {
+    upstream = await fetch(target, {
+      method: req.method,
+      headers,
+      body: await readBody(req),
+      signal: AbortSignal.timeout(UPSTREAM_TIMEOUT),
+    });
+  } catch (error) {
+    if (error instanceof Error && error.name === "TimeoutError") {
+      return sendError(res, 504, "UPSTREAM_TIMEOUT", "Backend did not respond in time");
+    }
+    console.error(`Proxy error [${path}]:`, error);
+    return sendError(res, 502, "UPSTREAM_UNAVAILABLE", "Backend is unreachable");
+  }
+
+  res.status(upstream.status);
+  for (const name of FORWARDED_RESPONSE_HEADERS) {
+    const value = upstream.headers.get(name);
+    if (value) {
+      res.setHeader(name, value);
+    }
+  }
+  // Responses depend on the session cookie
+  res.setHeader("Cache-Control", "no-store");
+
+  const text = await upstream.text();
+  if (!upstream.headers.get("content-type")?.includes("application/json")) {
+    return res.send(text);
+  }
+
+  try {
+    res.json(await sealTokens(JSON.parse(text)));
+  } catch {
+    res.send(text);
+  }
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const segments = ([] as string[]).concat(req.query.path ?? []);
+  const path = segments.join("/");
+
+  // Reject traversal out of the allowed prefix, and server-only routes.
+  // Query segments are already decoded, so "..%2Fadmin" arrives as
+  // "../admin": check the joined path
+  if (
+    !path.startsWith(ALLOWED_PREFIX) ||
+    path.split("/").some((segment) => segment === "" || segment === "." || segment === "..") ||
+    SERVER_ONLY_ROUTES.some((route) => route.test(path))
+  ) {
+    return sendError(res, 404, "NOT_FOUND", "Unknown API route");
+  }
+
+  const method = req.method?.toUpperCase();
+  if (SENSITIVE_ROUTES.some(([sensitive, route]) => method === sensitive && route.test(path))) {
+    return requireSensitiveActionAuth.api((req, res) => forward(req, res, path))(req, res);
+  }
+  return forward(req, res, path);
+}
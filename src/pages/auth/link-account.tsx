@@ -0,0 +1,255 @@
+import { useState } from "react";
+import { useRouter } from "next/router";
+import { signIn, useSession } from "next-auth/react";
+import { Link2, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ReauthDialog } from "@/components/auth/ReauthDialog";
+import { TwoFactorChallengeForm } from "@/components/auth/TwoFactorChallengeForm";
+import { useApi } from "@/components/contex/ApiProvider";
+import { useReauth } from "@/hooks/use-reauth";
+import { toast } from "@/hooks/use-toast";
+import {
+  ApiErrorCode,
+  isApiError,
+  isRateLimitedError,
+  isReauthRequiredError,
+  isUnauthorizedError,
+} from "@/lib/api-errors";
+import { getProviderLabel } from "@/lib/auth-providers";
+import type { AuthResponse } from "@/types/auth";
+
+// The signIn callback sends a provider sign-in here when its email belongs
+// to an existing account. Ownership is proven by the current session (when
+// already signed in) or the password; accounts without one sign in with
+// their provider first. The backend then links the new provider
+export default function LinkAccountPage() {
+  const router = useRouter();
+  const { api } = useApi();
+  const { status } = useSession();
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [twoFactorToken, setTwoFactorToken] = useState<string | null>(null);
+  // Linking to a signed-in account needs a recent credential check
+  const { withReauth, dialogProps: reauthDialogProps } = useReauth();
+
+  const linkToken = typeof router.query.token === "string" ? router.query.token : "";
+  const email = typeof router.query.email === "string" ? router.query.email : "";
+  const provider = getProviderLabel(
+    typeof router.query.provider === "string" ? router.query.provider : "google"
+  );
+  // Provider the account signs in with when it has no password
+  const via = typeof router.query.via === "string" ? router.query.via : null;
+
+  const backToLogin = () => router.push("/auth/login");
+
+  const completeSignIn = async (response: AuthResponse) => {
+    const result = await signIn("credentials", {
+      redirect: false,
+      sessionTicket: response.session_ticket,
+    });
+
+    if (result?.ok) {
+      toast({
+        title: "✅ Akun Terhubung",
+        description: `Mulai sekarang Anda bisa masuk dengan ${provider} atau password.`,
+      });
+      router.push("/");
+    } else {
+      toast({
+        title: "⚠️ Akun Terhubung",
+        description: `${provider} sudah terhubung. Silakan login untuk melanjutkan.`,
+      });
+      backToLogin();
+    }
+  };
+
+  // Signed in already: the session vouches for the account
+  const handleConnect = async () => {
+    setLoading(true);
+    setError("");
+    try {
+      await withReauth(() => api.connectAccount({ link_token: linkToken }));
+      toast({
+        title: "✅ Akun Terhubung",
+        description: `Mulai sekarang Anda juga bisa masuk dengan ${provider}.`,
+      });
+      router.push("/settings/connected-accounts");
+    } catch (err) {
+      // Re-auth cancelled
+      if (isReauthRequiredError(err)) {
+        return;
+      }
+      if (isApiError(err) && err.code === ApiErrorCode.InvalidToken) {
+        toast({
+          title: "⏰ Waktu Habis",
+          description: `Permintaan menghubungkan akun kedaluwarsa atau bukan untuk akun ini. Silakan hubungkan ${provider} lagi.`,
+          variant: "destructive",
+        });
+        router.push("/settings/connected-accounts");
+      } else {
+        setError("Terjadi kesalahan. Silakan coba lagi.");
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!password) {
+      return;
+    }
+
+    setLoading(true);
+    setError("");
+    try {
+      await completeSignIn(await api.linkAccount({ link_token: linkToken, password }));
+    } catch (err) {
+      if (isUnauthorizedError(err) && err.details.requires_two_factor) {
+        setTwoFactorToken(String(err.details.two_factor_token));
+      } else if (isUnauthorizedError(err)) {
+        setError("Password salah.");
+      } else if (isApiError(err) && err.code === ApiErrorCode.InvalidToken) {
+        toast({
+          title: "⏰ Waktu Habis",
+          description: `Permintaan menghubungkan akun kedaluwarsa. Silakan masuk dengan ${provider} lagi.`,
+          variant: "destructive",
+        });
+        backToLogin();
+      } else if (isRateLimitedError(err)) {
+        setError("Terlalu banyak percobaan. Silakan tunggu sebentar.");
+      } else {
+        setError("Terjadi kesalahan. Silakan coba lagi.");
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900 flex flex-col justify-center py-8 px-4 sm:px-6 lg:px-8">
+      <div className="w-full max-w-md mx-auto">
+        <Card className="w-full dark:bg-gray-800 dark:border-gray-700">
+          <CardHeader className="text-center">
+            <div className="mx-auto w-12 h-12 bg-blue-100 dark:bg-blue-900/30 rounded-full flex items-center justify-center mb-4">
+              <Link2 className="w-6 h-6 text-blue-600 dark:text-blue-400" />
+            </div>
+            <CardTitle className="text-2xl sm:text-3xl font-bold text-gray-900 dark:text-gray-50">
+              Hubungkan Akun {provider}
+            </CardTitle>
+            <CardDescription className="text-sm sm:text-base text-gray-600 dark:text-gray-400">
+              {twoFactorToken ? (
+                "Masukkan kode dari aplikasi autentikator Anda"
+              ) : status === "authenticated" ? (
+                `Hubungkan ${provider} ke akun yang sedang Anda gunakan?`
+              ) : via ? (
+                <>
+                  Email{" "}
+                  <span className="font-semibold text-blue-600 dark:text-blue-400 break-all">
+                    {email || "ini"}
+                  </span>{" "}
+                  sudah terdaftar dengan {getProviderLabel(via)}. Masuk dengan{" "}
+                  {getProviderLabel(via)} terlebih dahulu, lalu hubungkan {provider}{" "}
+                  dari halaman Connected Accounts.
+                </>
+              ) : (
+                <>
+                  Email{" "}
+                  <span className="font-semibold text-blue-600 dark:text-blue-400 break-all">
+                    {email || "ini"}
+                  </span>{" "}
+                  sudah terdaftar dengan password. Masukkan password akun
+                  tersebut untuk menghubungkan {provider}.
+                </>
+              )}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {twoFactorToken ? (
+              <TwoFactorChallengeForm
+                challengeToken={twoFactorToken}
+                onVerified={completeSignIn}
+                onCancel={backToLogin}
+              />
+            ) : status === "loading" ? (
+              <div className="flex justify-center py-4">
+                <Loader2 className="w-6 h-6 text-blue-600 dark:text-blue-400 animate-spin" />
+              </div>
+            ) : status === "authenticated" ? (
+              <div className="flex flex-col gap-3">
+                {error && <p className="text-sm text-red-600">{error}</p>}
+                <Button onClick={handleConnect} disabled={loading || !linkToken}>
+                  {loading ? "Menghubungkan..." : `Hubungkan ${provider}`}
+                </Button>
+                <Button
+                  variant="ghost"
+                  onClick={() => router.push("/settings/connected-accounts")}
+                  disabled={loading}
+                >
+                  Batal
+                </Button>
+              </div>
+            ) : via ? (
+              <div className="flex flex-col gap-3">
+                <Button
+                  onClick={() => signIn(via, { callbackUrl: "/settings/connected-accounts" })}
+                >
+                  Masuk dengan {getProviderLabel(via)}
+                </Button>
+                <Button variant="ghost" onClick={backToLogin}>
+                  Batal
+                </Button>
+              </div>
+            ) : (
+              <form onSubmit={handleSubmit} className="flex flex-col gap-6">
+                <div className="grid gap-3">
+                  <Label htmlFor="link-password">Password</Label>
+                  <Input
+                    id="link-password"
+                    type="password"
+                    placeholder="Masukkan password"
+                    autoComplete="current-password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    autoFocus
+                    required
+                    disabled={loading || !linkToken}
+                  />
+                  {error && <p className="text-sm text-red-600">{error}</p>}
+                </div>
+                <div className="flex flex-col gap-3">
+                  <Button type="submit" disabled={loading || !password || !linkToken}>
+                    {loading ? "Menghubungkan..." : "Hubungkan & Masuk"}
+                  </Button>
+                  <Button type="button" variant="ghost" onClick={backToLogin} disabled={loading}>
+                    Batal
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="link"
+                    className="h-auto p-0 text-sm"
+                    onClick={() => router.push("/auth/reset-password")}
+                    disabled={loading}
+                  >
+                    Lupa password?
+                  </Button>
+                </div>
+              </form>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+      <ReauthDialog {...reauthDialogProps} />
+    </div>
+  );
+}
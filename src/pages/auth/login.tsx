@@ -19,7 +19,7 @@ const LoginPage = () => {
       switch (error) {
         case "AccessDenied":
           errorMessage =
-            "Email ini sudah terdaftar dengan password. Silakan login dengan email dan password.";
+            "Login ditolak. Pastikan akun Anda memiliki email yang sudah terverifikasi, lalu coba lagi.";
           break;
         case "Configuration":
           errorMessage = "Terjadi masalah pada konfigurasi server. Silakan hubungi admin.";
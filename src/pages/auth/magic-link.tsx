@@ -0,0 +1,218 @@
+import { useEffect, useRef, useState } from "react";
+import { useRouter } from "next/router";
+import { signIn } from "next-auth/react";
+import { CheckCircle2, Loader2, Mail, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { TwoFactorChallengeForm } from "@/components/auth/TwoFactorChallengeForm";
+import { useApi } from "@/components/contex/ApiProvider";
+import { toast } from "@/hooks/use-toast";
+import { ApiErrorCode, isApiError, isUnauthorizedError } from "@/lib/api-errors";
+import {
+  clearMagicLinkRequest,
+  isRequestedEmail,
+  MagicLinkRequestState,
+  readMagicLinkRequest,
+} from "@/lib/magic-link";
+import type { AuthResponse } from "@/types/auth";
+
+type LinkStatus =
+  // Opened on another device: ask before signing in here
+  | "confirm"
+  | "signing-in"
+  | "two-factor"
+  | "success"
+  | "expired"
+  | "used"
+  | "invalid";
+
+const FAILURES: Partial<Record<LinkStatus, { title: string; description: string }>> = {
+  expired: {
+    title: "Link Kedaluwarsa",
+    description: "Link masuk ini sudah tidak berlaku. Silakan minta link baru dari halaman login.",
+  },
+  used: {
+    title: "Link Sudah Digunakan",
+    description: "Link masuk hanya bisa digunakan sekali. Silakan minta link baru jika Anda belum masuk.",
+  },
+  invalid: {
+    title: "Link Tidak Valid",
+    description: "Link masuk tidak dikenali. Pastikan Anda membuka link terbaru dari email Anda.",
+  },
+};
+
+// Landing page of the sign-in link. Opened in the browser that requested
+// it, it signs in right away; anywhere else it asks first, so the session
+// isn't started on a device the user didn't mean to
+export default function MagicLinkPage() {
+  const router = useRouter();
+  const { api } = useApi();
+  const [status, setStatus] = useState<LinkStatus | null>(null);
+  const [twoFactorToken, setTwoFactorToken] = useState<string | null>(null);
+  const request = useRef<MagicLinkRequestState | null>(null);
+  // Exchanged link for an account other than the one requested here,
+  // waiting for the user to confirm
+  const unexpected = useRef<AuthResponse | null>(null);
+  // The token can be exchanged once; Strict Mode runs effects twice
+  const exchanged = useRef(false);
+
+  const token = typeof router.query.token === "string" ? router.query.token : "";
+
+  const completeSignIn = async (response: AuthResponse) => {
+    const result = await signIn("credentials", {
+      redirect: false,
+      sessionTicket: response.session_ticket,
+      rememberMe: String(request.current?.rememberMe ?? true),
+    });
+
+    if (!result?.ok) {
+      toast({
+        title: "❌ Login Gagal",
+        description: "Terjadi kesalahan saat login. Silakan coba lagi.",
+        variant: "destructive",
+      });
+      setStatus("invalid");
+      return;
+    }
+
+    clearMagicLinkRequest();
+    setStatus("success");
+    toast({
+      title: "✅ Login Berhasil!",
+      description: "Selamat datang kembali di template zacode!",
+    });
+    router.replace(request.current?.callbackUrl ?? "/");
+  };
+
+  const exchangeToken = async () => {
+    if (exchanged.current) {
+      return;
+    }
+    exchanged.current = true;
+    setStatus("signing-in");
+
+    try {
+      const response = await api.verifyMagicLink(token);
+      if (request.current && !isRequestedEmail(request.current, response.user.email)) {
+        // Not the link requested here: treat it like one from another device
+        request.current = null;
+        unexpected.current = response;
+        setStatus("confirm");
+        return;
+      }
+      await completeSignIn(response);
+    } catch (error) {
+      if (isUnauthorizedError(error) && error.details.requires_two_factor) {
+        setTwoFactorToken(String(error.details.two_factor_token));
+        setStatus("two-factor");
+      } else if (isApiError(error) && error.code === ApiErrorCode.MagicLinkExpired) {
+        setStatus("expired");
+      } else if (isApiError(error) && error.code === ApiErrorCode.MagicLinkUsed) {
+        setStatus("used");
+      } else {
+        console.error("Magic link sign-in error:", error);
+        setStatus("invalid");
+      }
+    }
+  };
+
+  // Decide once the query is known: same browser signs in, others confirm
+  useEffect(() => {
+    if (!router.isReady || status !== null) {
+      return;
+    }
+    if (!token) {
+      router.replace("/auth/login");
+      return;
+    }
+    request.current = readMagicLinkRequest();
+    if (request.current) {
+      exchangeToken();
+    } else {
+      setStatus("confirm");
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [router.isReady, token, status]);
+
+  const failure = status ? FAILURES[status] : undefined;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900 flex flex-col justify-center py-8 px-4 sm:px-6 lg:px-8">
+      <div className="w-full max-w-md mx-auto">
+        <Card className="w-full dark:bg-gray-800 dark:border-gray-700">
+          <CardHeader className="text-center">
+            <div className="mx-auto w-12 h-12 bg-blue-100 dark:bg-blue-900/30 rounded-full flex items-center justify-center mb-4">
+              {status === "success" ? (
+                <CheckCircle2 className="w-6 h-6 text-green-600 dark:text-green-400" />
+              ) : failure ? (
+                <XCircle className="w-6 h-6 text-red-600 dark:text-red-400" />
+              ) : status === "confirm" || status === "two-factor" ? (
+                <Mail className="w-6 h-6 text-blue-600 dark:text-blue-400" />
+              ) : (
+                <Loader2 className="w-6 h-6 text-blue-600 dark:text-blue-400 animate-spin" />
+              )}
+            </div>
+            <CardTitle className="text-2xl sm:text-3xl font-bold text-gray-900 dark:text-gray-50">
+              {failure?.title ??
+                (status === "confirm"
+                  ? "Masuk di Perangkat Ini?"
+                  : status === "two-factor"
+                    ? "Verifikasi Dua Langkah"
+                    : status === "success"
+                      ? "Login Berhasil"
+                      : "Memproses Link Masuk")}
+            </CardTitle>
+            <CardDescription className="text-sm sm:text-base text-gray-600 dark:text-gray-400">
+              {failure?.description ??
+                (status === "confirm"
+                  ? "Link ini diminta dari perangkat atau browser lain. Lanjutkan hanya jika Anda ingin masuk di sini."
+                  : status === "two-factor"
+                    ? "Masukkan kode dari aplikasi autentikator Anda"
+                    : status === "success"
+                      ? "Mengarahkan Anda..."
+                      : "Mohon tunggu sebentar...")}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {status === "confirm" && (
+              <div className="flex flex-col gap-3">
+                <Button
+                  onClick={() =>
+                    unexpected.current
+                      ? completeSignIn(unexpected.current)
+                      : exchangeToken()
+                  }
+                >
+                  Lanjutkan Masuk
+                </Button>
+                <Button variant="ghost" onClick={() => router.push("/auth/login")}>
+                  Batal
+                </Button>
+              </div>
+            )}
+
+            {status === "two-factor" && twoFactorToken && (
+              <TwoFactorChallengeForm
+                challengeToken={twoFactorToken}
+                onVerified={completeSignIn}
+                onCancel={() => router.push("/auth/login")}
+              />
+            )}
+
+            {failure && (
+              <Button className="w-full" onClick={() => router.push("/auth/login")}>
+                Kembali ke Login
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+import React from "react";
+import { useRouter } from "next/router";
+import { ReauthDialog } from "@/components/auth/ReauthDialog";
+
+// Pages guarded with requireRecentAuth redirect here; the user confirms
+// their credentials and goes back to where they were heading
+const ReauthenticatePage = () => {
+  const router = useRouter();
+  const requested = router.query.callbackUrl;
+  // Only same-site paths, so the page can't be used as an open redirect
+  const callbackUrl =
+    typeof requested === "string" && requested.startsWith("/") && !requested.startsWith("//")
+      ? requested
+      : "/";
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900">
+      <ReauthDialog
+        isOpen={router.isReady}
+        onClose={() => router.push("/")}
+        onSuccess={() => router.replace(callbackUrl)}
+        callbackUrl={callbackUrl}
+      />
+    </div>
+  );
+};
+
+export default ReauthenticatePage;
@@ -1,6 +1,5 @@
 import { useState } from "react";
 import { useRouter } from "next/router";
-import { signIn } from "next-auth/react";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { ArrowLeft } from "lucide-react";
@@ -16,7 +15,15 @@ import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
 import { toast } from "@/hooks/use-toast";
 import { Eye, EyeOff } from "lucide-react";
+import { OAuthButtons } from "@/components/auth/OAuthButtons";
+import { useOAuthProviders } from "@/hooks/use-oauth-providers";
 import { api } from "@/lib/api";
+import {
+  ApiErrorCode,
+  isConflictError,
+  isValidationError,
+} from "@/lib/api-errors";
+import { getErrorProviderLabel } from "@/lib/auth-providers";
 
 interface RegisterFormData {
   username: string;
@@ -34,7 +41,7 @@ export default function Register() {
     confirmPassword: "",
   });
   const [loading, setLoading] = useState(false);
-  const [googleLoading, setGoogleLoading] = useState(false);
+  const oauthProviders = useOAuthProviders();
   const [showPassword, setShowPassword] = useState(false);
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
 
@@ -158,50 +165,34 @@ export default function Register() {
       let errorDescription = "Terjadi kesalahan saat mendaftar. Silakan coba lagi.";
 
       // Handle specific error cases
-      if (error instanceof Error) {
-        const errorMessage = error.message || "";
-        
-        // Check for specific error messages
-        if (errorMessage.includes("already registered with Google") || 
-            errorMessage.includes("already registered with password")) {
-          errorTitle = "❌ Email Sudah Terdaftar";
-          errorDescription = errorMessage.includes("Google") 
-            ? "Email ini sudah terdaftar dengan Google. Silakan login menggunakan Google Sign In."
-            : "Email ini sudah terdaftar dengan password. Silakan login dengan email dan password.";
-        } else if (errorMessage.includes("already registered") || 
-                   errorMessage.includes("already exists")) {
-          errorTitle = "❌ Email Sudah Terdaftar";
-          errorDescription = "Email yang Anda gunakan sudah terdaftar. Silakan gunakan yang lain atau coba login.";
-        } else if (errorMessage.includes("username already taken")) {
-          errorTitle = "❌ Username Sudah Digunakan";
-          errorDescription = "Username yang Anda pilih sudah digunakan. Silakan pilih username lain.";
-        } else if (errorMessage.includes("Invalid request data") || 
-                   errorMessage.includes("VALIDATION_ERROR")) {
-          errorTitle = "❌ Data Tidak Valid";
-          errorDescription = "Pastikan semua field diisi dengan benar. Username min 3 karakter, password min 8 karakter.";
-        } else if (typeof errorMessage === 'string' && errorMessage.trim() !== '') {
-          // Use the error message if it's a valid string
-          errorDescription = errorMessage;
-        }
-      }
-
-      // Handle object errors (fallback)
-      if (typeof error === 'object' && error !== null && !(error instanceof Error)) {
-        const errorObj = error as {
-          response?: {
-            data?: {
-              error?: {
-                message?: string;
-              };
-            };
-          };
-          message?: string;
-        };
-        if (errorObj.response?.data?.error?.message) {
-          errorDescription = errorObj.response.data.error.message;
-        } else if (errorObj.message) {
-          errorDescription = typeof errorObj.message === 'string' ? errorObj.message : errorDescription;
+      if (isConflictError(error)) {
+        errorTitle = "❌ Email Sudah Terdaftar";
+        switch (error.code) {
+          case ApiErrorCode.AccountExistsWithOAuth: {
+            const provider = getErrorProviderLabel(error.details);
+            errorDescription = `Email ini sudah terdaftar dengan ${provider}. Silakan login menggunakan ${provider}.`;
+            break;
+          }
+          case ApiErrorCode.AccountExistsWithPassword:
+            errorDescription = "Email ini sudah terdaftar dengan password. Silakan login dengan email dan password.";
+            break;
+          case ApiErrorCode.UsernameTaken:
+            errorTitle = "❌ Username Sudah Digunakan";
+            errorDescription = "Username yang Anda pilih sudah digunakan. Silakan pilih username lain.";
+            break;
+          default:
+            errorDescription = "Email yang Anda gunakan sudah terdaftar. Silakan gunakan yang lain atau coba login.";
         }
+      } else if (isValidationError(error)) {
+        errorTitle = "❌ Data Tidak Valid";
+        const fieldMessages = Object.values(error.fieldErrors).flat();
+        errorDescription =
+          fieldMessages.length > 0
+            ? fieldMessages.join(" ")
+            : "Pastikan semua field diisi dengan benar. Username min 3 karakter, password min 8 karakter.";
+      } else if (error instanceof Error && error.message.trim() !== "") {
+        // Use the error message if it's a valid string
+        errorDescription = error.message;
       }
 
       toast({
@@ -214,15 +205,6 @@ export default function Register() {
     }
   };
 
-  const handleGoogleSignIn = async () => {
-    setGoogleLoading(true);
-    try {
-      await signIn("google", { callbackUrl: "/" });
-    } finally {
-      setGoogleLoading(false);
-    }
-  };
-
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900 flex flex-col justify-center py-12 px-4 sm:px-6 lg:px-8 relative">
       {/* Back Button */}
@@ -342,50 +324,29 @@ export default function Register() {
               </div>
             </form>
 
-            {/* Divider */}
-            <div className="relative my-6">
-              <div className="absolute inset-0 flex items-center">
-                <Separator className="w-full" />
-              </div>
-              <div className="relative flex justify-center text-xs uppercase">
-                <span className="bg-white dark:bg-gray-800 px-2 text-muted-foreground">
-                  Atau lanjutkan dengan
-                </span>
-              </div>
-            </div>
+            {oauthProviders && oauthProviders.length > 0 && (
+              <>
+                {/* Divider */}
+                <div className="relative my-6">
+                  <div className="absolute inset-0 flex items-center">
+                    <Separator className="w-full" />
+                  </div>
+                  <div className="relative flex justify-center text-xs uppercase">
+                    <span className="bg-white dark:bg-gray-800 px-2 text-muted-foreground">
+                      Atau lanjutkan dengan
+                    </span>
+                  </div>
+                </div>
 
-            {/* Google Sign Up Button */}
-            <Button
-              type="button"
-              variant="outline"
-              className="w-full bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 border-gray-300 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700"
-              onClick={handleGoogleSignIn}
-              disabled={googleLoading || loading}
-            >
-              <svg
-                className="mr-2 h-4 w-4"
-                viewBox="0 0 24 24"
-                xmlns="http://www.w3.org/2000/svg"
-              >
-                <path
-                  d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92c-.26 1.37-1.04 2.53-2.21 3.31v2.77h3.57c2.08-1.92 3.28-4.74 3.28-8.09z"
-                  fill="#4285F4"
-                />
-                <path
-                  d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.77c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84C3.99 20.53 7.7 23 12 23z"
-                  fill="#34A853"
-                />
-                <path
-                  d="M5.84 14.09c-.22-.66-.35-1.36-.35-2.09s.13-1.43.35-2.09V7.07H2.18C1.43 8.55 1 10.22 1 12s.43 3.45 1.18 4.93l2.85-2.22.81-.62z"
-                  fill="#FBBC05"
-                />
-                <path
-                  d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1 7.7 1 3.99 3.47 2.18 7.07l3.66 2.84c.87-2.6 3.3-4.53 6.16-4.53z"
-                  fill="#EA4335"
+                {/* External Provider Sign Up Buttons */}
+                <OAuthButtons
+                  providers={oauthProviders}
+                  action="Daftar"
+                  callbackUrl="/"
+                  disabled={loading}
                 />
-              </svg>
-              {googleLoading ? "Memproses..." : "Daftar dengan Google"}
-            </Button>
+              </>
+            )}
 
             {/* Login Link */}
             <div className="text-center mt-6">
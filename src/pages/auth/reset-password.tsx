@@ -140,11 +140,10 @@ export default function ResetPassword() {
         description: "Password Anda telah direset. Mengarahkan...",
       });
 
-      // Auto-login using JWT tokens from response
+      // Auto-login with the sealed tokens from the response
       const { signIn } = await import("next-auth/react");
       const loginResult = await signIn("credentials", {
-        accessToken: response.access_token,
-        refreshToken: response.refresh_token,
+        sessionTicket: response.session_ticket,
         redirect: false,
       });
 
@@ -0,0 +1,100 @@
+import { useEffect } from "react";
+import { useRouter } from "next/router";
+import { signIn } from "next-auth/react";
+import { ShieldCheck } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { TwoFactorChallengeForm } from "@/components/auth/TwoFactorChallengeForm";
+import { toast } from "@/hooks/use-toast";
+import { getProviderLabel } from "@/lib/auth-providers";
+import type { AuthResponse } from "@/types/auth";
+
+// NextAuth's callbackUrl can be absolute; only follow it on this site
+function toLocalPath(value: string) {
+  try {
+    const url = new URL(value, window.location.origin);
+    return url.origin === window.location.origin ? `${url.pathname}${url.search}${url.hash}` : "/";
+  } catch {
+    return "/";
+  }
+}
+
+// The signIn callback sends a provider sign-in here when the account has
+// 2FA: the provider stands in for the password, the code is still needed
+export default function TwoFactorPage() {
+  const router = useRouter();
+
+  const token = typeof router.query.token === "string" ? router.query.token : "";
+  const provider = getProviderLabel(
+    typeof router.query.provider === "string" ? router.query.provider : "google"
+  );
+  const rememberMe = router.query.rememberMe === "false" ? "false" : "true";
+  const callbackUrl = typeof router.query.callbackUrl === "string" ? router.query.callbackUrl : "/";
+
+  const backToLogin = () => router.push("/auth/login");
+
+  useEffect(() => {
+    if (router.isReady && !token) {
+      router.replace("/auth/login");
+    }
+  }, [router, token]);
+
+  const completeSignIn = async (response: AuthResponse) => {
+    const result = await signIn("credentials", {
+      redirect: false,
+      sessionTicket: response.session_ticket,
+      rememberMe,
+    });
+
+    if (!result?.ok) {
+      toast({
+        title: "❌ Login Gagal",
+        description: "Terjadi kesalahan saat login. Silakan coba lagi.",
+        variant: "destructive",
+      });
+      backToLogin();
+      return;
+    }
+
+    toast({
+      title: "✅ Login Berhasil!",
+      description: "Selamat datang kembali di template zacode!",
+    });
+    router.replace(toLocalPath(callbackUrl));
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900 flex flex-col justify-center py-8 px-4 sm:px-6 lg:px-8">
+      <div className="w-full max-w-md mx-auto">
+        <Card className="w-full dark:bg-gray-800 dark:border-gray-700">
+          <CardHeader className="text-center">
+            <div className="mx-auto w-12 h-12 bg-blue-100 dark:bg-blue-900/30 rounded-full flex items-center justify-center mb-4">
+              <ShieldCheck className="w-6 h-6 text-blue-600 dark:text-blue-400" />
+            </div>
+            <CardTitle className="text-2xl sm:text-3xl font-bold text-gray-900 dark:text-gray-50">
+              Verifikasi Dua Langkah
+            </CardTitle>
+            <CardDescription className="text-sm sm:text-base text-gray-600 dark:text-gray-400">
+              Masuk dengan {provider} berhasil. Masukkan kode dari aplikasi
+              autentikator Anda untuk melanjutkan.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {token && (
+              <TwoFactorChallengeForm
+                challengeToken={token}
+                onVerified={completeSignIn}
+                onCancel={backToLogin}
+              />
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -90,11 +90,10 @@ export default function VerifyEmail() {
         // For email verification: verify and auto login
         const response = await api.verifyEmail(verificationToken);
 
-        // Auto login using JWT tokens from response
-        if (response.user && response.access_token) {
+        // Auto login with the sealed tokens from the response
+        if (response.user && response.session_ticket) {
           const loginResult = await signIn("credentials", {
-            accessToken: response.access_token,
-            refreshToken: response.refresh_token,
+            sessionTicket: response.session_ticket,
             redirect: false,
           });
 
@@ -128,19 +127,8 @@ export default function VerifyEmail() {
 
       let errorMessage = "Token tidak valid atau sudah kedaluwarsa. Silakan request ulang.";
 
-      if (error instanceof Error) {
-        const errorObj = error as unknown as { 
-          response?: { 
-            data?: { 
-              error?: { message?: string } 
-            } 
-          } 
-        };
-        if (errorObj.response?.data?.error?.message) {
-          errorMessage = errorObj.response.data.error.message;
-        } else if (error.message) {
-          errorMessage = error.message;
-        }
+      if (error instanceof Error && error.message) {
+        errorMessage = error.message;
       }
 
       toast({
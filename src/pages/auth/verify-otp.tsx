@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useRouter } from "next/router";
 import { signIn } from "next-auth/react";
 import { Button } from "@/components/ui/button";
@@ -13,6 +13,7 @@ import { Input } from "@/components/ui/input";
 import { toast } from "@/hooks/use-toast";
 import { Mail, Loader2 } from "lucide-react";
 import { api } from "@/lib/api";
+import { isAbortError, isTimeoutError } from "@/lib/api-errors";
 
 export default function VerifyOtp() {
   const router = useRouter();
@@ -25,6 +26,19 @@ export default function VerifyOtp() {
   const [lastVerificationTime, setLastVerificationTime] = useState(0);
   const [userEmail, setUserEmail] = useState("");
   const [callbackUrl, setCallbackUrl] = useState<string>("/");
+  const verifyRequest = useRef<AbortController | null>(null);
+
+  // Cancel a pending verification when leaving the page
+  useEffect(() => {
+    return () => verifyRequest.current?.abort();
+  }, []);
+
+  // Start a verification request, cancelling any previous one
+  const startVerifyRequest = () => {
+    verifyRequest.current?.abort();
+    verifyRequest.current = new AbortController();
+    return verifyRequest.current.signal;
+  };
 
   // Countdown timer
   useEffect(() => {
@@ -76,12 +90,13 @@ export default function VerifyOtp() {
     setIsVerifying(true);
 
     try {
-      const response = await api.verifyEmail(verificationToken);
+      const response = await api.verifyEmail(verificationToken, {
+        signal: startVerifyRequest(),
+      });
 
-      // Auto-login using the JWT tokens from verification
+      // Auto-login with the sealed tokens from verification
       const loginResult = await signIn("credentials", {
-        accessToken: response.access_token,
-        refreshToken: response.refresh_token,
+        sessionTicket: response.session_ticket,
         redirect: false,
       });
 
@@ -100,6 +115,9 @@ export default function VerifyOtp() {
         router.push(`/auth/login?callbackUrl=${encodeURIComponent(callbackUrl)}`);
       }
     } catch (error) {
+      if (isAbortError(error)) {
+        return;
+      }
       console.error("Email verification error:", error);
       toast({
         title: "❌ Verifikasi Gagal",
@@ -200,12 +218,13 @@ export default function VerifyOtp() {
       
       if (token && typeof token === "string") {
         // Verify using token (for email verification)
-        const response = await api.verifyEmail(token);
+        const response = await api.verifyEmail(token, {
+          signal: startVerifyRequest(),
+        });
 
-        // Auto-login using the JWT tokens from verification
+        // Auto-login with the sealed tokens from verification
         const loginResult = await signIn("credentials", {
-          accessToken: response.access_token,
-          refreshToken: response.refresh_token,
+          sessionTicket: response.session_ticket,
           redirect: false,
         });
 
@@ -228,19 +247,18 @@ export default function VerifyOtp() {
         }
       } else {
         // Verify using OTP code
-        const data = await api.verifyOTP({
-          email: userEmail,
-          otp_code: otpString,
-        });
-
-        // Auto-login using the JWT tokens from verification
-        const accessToken = data.access_token;
-        const refreshToken = data.refresh_token;
-        
-        if (accessToken && refreshToken) {
+        const data = await api.verifyOTP(
+          {
+            email: userEmail,
+            otp_code: otpString,
+          },
+          { signal: startVerifyRequest() }
+        );
+
+        // Auto-login with the sealed tokens from verification
+        if (data.session_ticket) {
           const loginResult = await signIn("credentials", {
-            accessToken: accessToken,
-            refreshToken: refreshToken,
+            sessionTicket: data.session_ticket,
             redirect: false,
           });
 
@@ -272,11 +290,17 @@ export default function VerifyOtp() {
         }
       }
     } catch (error) {
+      if (isAbortError(error)) {
+        return;
+      }
       console.error("Verification error:", error);
       toast({
-        title: "❌ Verifikasi Gagal",
-        description:
-          error instanceof Error
+        title: isTimeoutError(error)
+          ? "⏱️ Server Tidak Merespons"
+          : "❌ Verifikasi Gagal",
+        description: isTimeoutError(error)
+          ? "Verifikasi terlalu lama. Periksa koneksi Anda dan coba lagi."
+          : error instanceof Error
             ? error.message
             : "Terjadi kesalahan saat verifikasi. Silakan coba lagi atau hubungi support.",
         variant: "destructive",
@@ -0,0 +1,366 @@
+import { useEffect, useState } from "react";
+import { useRouter } from "next/router";
+import { signIn, useSession } from "next-auth/react";
+import { formatDistanceToNow } from "date-fns";
+import { id as localeId } from "date-fns/locale";
+import { KeyRound, Link2 } from "lucide-react";
+import { ReauthDialog } from "@/components/auth/ReauthDialog";
+import Navbar from "@/components/general/Navbar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { ConfirmDialog } from "@/components/ui/confirm-dialog";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { toast } from "@/hooks/use-toast";
+import { useApiMutation, useApiQuery } from "@/hooks/use-api-query";
+import { useOAuthProviders } from "@/hooks/use-oauth-providers";
+import { useReauth } from "@/hooks/use-reauth";
+import {
+  ApiErrorCode,
+  isConflictError,
+  isNotFoundError,
+  isReauthRequiredError,
+} from "@/lib/api-errors";
+import { getProviderLabel } from "@/lib/auth-providers";
+import { setOAuthConnectIntent } from "@/lib/oauth-connect";
+import { requireRecentAuth, SENSITIVE_ACTION_MAX_AGE_SECONDS } from "@/lib/server/recent-auth";
+
+const CONNECTED_ACCOUNTS_KEY = ["/api/v1/auth/identities"] as const;
+
+// Changing how the account signs in needs a fresh credential check. The
+// page checks it on load; the API proxy checks it again for every change
+export const getServerSideProps = requireRecentAuth(SENSITIVE_ACTION_MAX_AGE_SECONDS).page(
+  async () => ({ props: {} })
+);
+
+function formatLinkedAt(value?: string | null) {
+  const date = new Date(value ?? "");
+  if (Number.isNaN(date.getTime())) {
+    return null;
+  }
+  return formatDistanceToNow(date, { addSuffix: true, locale: localeId });
+}
+
+export default function ConnectedAccountsSettings() {
+  const router = useRouter();
+  const { data: session } = useSession();
+  const [providerToUnlink, setProviderToUnlink] = useState<string | null>(null);
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const oauthProviders = useOAuthProviders();
+
+  const { data, error, isLoading, refetch } = useApiQuery(
+    CONNECTED_ACCOUNTS_KEY,
+    (api, { signal }) => api.getConnectedAccounts({ signal })
+  );
+
+  const unlink = useApiMutation(
+    (api, provider: string) => api.unlinkAccount(provider),
+    { invalidates: [CONNECTED_ACCOUNTS_KEY] }
+  );
+
+  const connect = useApiMutation((api) => api.createConnectToken());
+
+  const setPassword = useApiMutation(
+    (api, password: string) => api.setPassword({ new_password: password }),
+    { invalidates: [CONNECTED_ACCOUNTS_KEY] }
+  );
+
+  // The check from loading the page runs out while it stays open
+  const { withReauth, dialogProps: reauthDialogProps } = useReauth();
+
+  // Enabled providers, plus linked ones that have since been switched off
+  // (they can still be unlinked)
+  const providerIds = [
+    ...new Set([
+      ...(oauthProviders ?? []).map((provider) => provider.id),
+      ...(data?.identities ?? []).map((identity) => identity.provider),
+    ]),
+  ];
+  const providerLabel = (provider: string) =>
+    oauthProviders?.find((enabled) => enabled.id === provider)?.name ??
+    getProviderLabel(provider);
+
+  // The provider sign-in carries a connect token, so its callback links the
+  // provider account to this user (whatever its email) instead of signing in
+  // with it, and comes back here with the outcome
+  const handleConnect = async (provider: string) => {
+    try {
+      const { connect_token } = await withReauth(() => connect.mutateAsync());
+      setOAuthConnectIntent({ provider, connectToken: connect_token });
+      await signIn(
+        provider,
+        { callbackUrl: "/settings/connected-accounts" },
+        session?.user.email ? { login_hint: session.user.email } : undefined
+      );
+    } catch (error) {
+      // Re-auth cancelled
+      if (isReauthRequiredError(error)) {
+        return;
+      }
+      toast({
+        title: "❌ Gagal Menghubungkan Akun",
+        description: "Terjadi kesalahan. Silakan coba lagi.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Outcome of a connect, from the sign-in callback
+  useEffect(() => {
+    const { provider, connected, error: code } = router.query;
+    if (typeof provider !== "string" || (connected !== "1" && typeof code !== "string")) {
+      return;
+    }
+    const label = providerLabel(provider);
+    if (connected === "1") {
+      toast({
+        title: "✅ Akun Terhubung",
+        description: `Mulai sekarang Anda juga bisa masuk dengan ${label}.`,
+      });
+    } else {
+      toast({
+        title: "❌ Gagal Menghubungkan Akun",
+        description:
+          code === ApiErrorCode.IdentityInUse
+            ? `Akun ${label} tersebut sudah digunakan oleh akun lain.`
+            : code === ApiErrorCode.OAuthAccountMismatch
+              ? `Akun ${label} lain sudah terhubung ke akun ini.`
+              : code === ApiErrorCode.EmailNotVerified
+                ? `Email akun ${label} tersebut belum diverifikasi oleh ${label}.`
+                : code === ApiErrorCode.InvalidToken
+                  ? "Permintaan menghubungkan akun kedaluwarsa. Silakan coba lagi."
+                  : "Terjadi kesalahan. Silakan coba lagi.",
+        variant: "destructive",
+      });
+    }
+    router.replace("/settings/connected-accounts", undefined, { shallow: true });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [router.query]);
+
+  const handleUnlink = async () => {
+    if (!providerToUnlink) {
+      return;
+    }
+
+    const label = providerLabel(providerToUnlink);
+    try {
+      await withReauth(() => unlink.mutateAsync(providerToUnlink));
+      toast({
+        title: "✅ Akun Diputuskan",
+        description: `${label} tidak lagi bisa digunakan untuk masuk.`,
+      });
+    } catch (error) {
+      // Re-auth cancelled
+      if (isReauthRequiredError(error)) {
+        return;
+      }
+      if (isNotFoundError(error)) {
+        refetch().catch(() => {});
+      }
+      toast({
+        title: "❌ Gagal Memutuskan Akun",
+        description:
+          isConflictError(error) && error.code === ApiErrorCode.LastLoginMethod
+            ? `${label} adalah satu-satunya cara masuk ke akun ini. Tambahkan password terlebih dahulu.`
+            : isNotFoundError(error)
+              ? `${label} sudah tidak terhubung.`
+              : "Terjadi kesalahan. Silakan coba lagi.",
+        variant: "destructive",
+      });
+    } finally {
+      setProviderToUnlink(null);
+    }
+  };
+
+  const handleSetPassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newPassword.length < 8) {
+      toast({
+        title: "Error",
+        description: "Password minimal 8 karakter.",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      toast({
+        title: "Error",
+        description: "Konfirmasi password tidak cocok.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      await withReauth(() => setPassword.mutateAsync(newPassword));
+      setNewPassword("");
+      setConfirmPassword("");
+      toast({
+        title: "✅ Password Ditambahkan",
+        description: "Sekarang Anda juga bisa masuk dengan email dan password.",
+      });
+    } catch (error) {
+      // Re-auth cancelled: keep the form filled in
+      if (isReauthRequiredError(error)) {
+        return;
+      }
+      toast({
+        title: "❌ Gagal Menambahkan Password",
+        description: "Terjadi kesalahan. Silakan coba lagi.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+      <main className="max-w-3xl mx-auto py-10 px-4">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-2xl">Akun Terhubung</CardTitle>
+            <CardDescription>
+              Cara Anda masuk ke akun ini. Hubungkan akun lain, atau putuskan
+              yang tidak lagi digunakan.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {isLoading &&
+              Array.from({ length: 2 }, (_, index) => (
+                <Skeleton key={index} className="h-20 w-full" />
+              ))}
+
+            {!isLoading && error !== undefined && !data && (
+              <div className="text-center space-y-3 py-6">
+                <p className="text-sm text-gray-600">
+                  Gagal memuat akun terhubung.
+                </p>
+                <Button variant="outline" onClick={() => refetch().catch(() => {})}>
+                  Coba Lagi
+                </Button>
+              </div>
+            )}
+
+            {data && (
+              <div className="rounded-lg border p-4 space-y-4">
+                <div className="flex items-center gap-4">
+                  <KeyRound className="h-5 w-5 text-gray-500" />
+                  <div className="flex items-center gap-2">
+                    <p className="font-medium">Email & Password</p>
+                    {data.has_password && <Badge variant="secondary">Aktif</Badge>}
+                  </div>
+                </div>
+                {!data.has_password && (
+                  <form onSubmit={handleSetPassword} className="space-y-3">
+                    <p className="text-sm text-gray-600">
+                      Tambahkan password untuk masuk dengan{" "}
+                      {session?.user.email ?? "email Anda"} tanpa akun lain.
+                    </p>
+                    <Input
+                      type="password"
+                      placeholder="Password baru"
+                      autoComplete="new-password"
+                      value={newPassword}
+                      onChange={(e) => setNewPassword(e.target.value)}
+                      disabled={setPassword.isLoading}
+                      required
+                    />
+                    <Input
+                      type="password"
+                      placeholder="Konfirmasi password"
+                      autoComplete="new-password"
+                      value={confirmPassword}
+                      onChange={(e) => setConfirmPassword(e.target.value)}
+                      disabled={setPassword.isLoading}
+                      required
+                    />
+                    <Button type="submit" disabled={setPassword.isLoading}>
+                      {setPassword.isLoading ? "Menyimpan..." : "Tambah Password"}
+                    </Button>
+                  </form>
+                )}
+              </div>
+            )}
+
+            {data &&
+              providerIds.map((provider) => {
+                const identity = data.identities.find(
+                  (connected) => connected.provider === provider
+                );
+                const linkedAt = formatLinkedAt(identity?.linked_at);
+                const label = providerLabel(provider);
+
+                return (
+                  <div
+                    key={provider}
+                    className="flex items-center justify-between gap-4 rounded-lg border p-4"
+                  >
+                    <div className="flex items-center gap-4 min-w-0">
+                      <Link2 className="h-5 w-5 text-gray-500" />
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2">
+                          <p className="font-medium">{label}</p>
+                          {identity && <Badge variant="secondary">Terhubung</Badge>}
+                        </div>
+                        <p className="text-sm text-gray-600 truncate">
+                          {identity
+                            ? [identity.email, linkedAt && `dihubungkan ${linkedAt}`]
+                                .filter(Boolean)
+                                .join(" · ")
+                            : `Masuk juga dengan akun ${label} Anda.`}
+                        </p>
+                      </div>
+                    </div>
+                    {identity ? (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={unlink.isLoading}
+                        onClick={() => setProviderToUnlink(provider)}
+                      >
+                        Putuskan
+                      </Button>
+                    ) : (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={connect.isLoading}
+                        onClick={() => handleConnect(provider)}
+                      >
+                        Hubungkan
+                      </Button>
+                    )}
+                  </div>
+                );
+              })}
+          </CardContent>
+        </Card>
+      </main>
+
+      <ConfirmDialog
+        isOpen={providerToUnlink !== null}
+        onClose={() => setProviderToUnlink(null)}
+        onConfirm={handleUnlink}
+        title="Putuskan Akun?"
+        description={
+          providerToUnlink
+            ? `Anda tidak akan bisa masuk dengan ${providerLabel(providerToUnlink)} lagi.`
+            : ""
+        }
+        confirmText="Putuskan"
+        cancelText="Batal"
+        variant="destructive"
+        isLoading={unlink.isLoading}
+      />
+      <ReauthDialog {...reauthDialogProps} />
+    </div>
+  );
+}
@@ -0,0 +1,495 @@
+import { useState } from "react";
+import { QRCodeSVG } from "qrcode.react";
+import { browserSupportsWebAuthn, startRegistration, WebAuthnError } from "@simplewebauthn/browser";
+import { formatDistanceToNow } from "date-fns";
+import { id as localeId } from "date-fns/locale";
+import { Download, KeyRound, ShieldCheck } from "lucide-react";
+import { ReauthDialog } from "@/components/auth/ReauthDialog";
+import Navbar from "@/components/general/Navbar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { ConfirmDialog } from "@/components/ui/confirm-dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { toast } from "@/hooks/use-toast";
+import { useApiMutation, useApiQuery } from "@/hooks/use-api-query";
+import { useReauth, type UseReauthResult } from "@/hooks/use-reauth";
+import {
+  ApiErrorCode,
+  isApiError,
+  isConflictError,
+  isNotFoundError,
+  isReauthRequiredError,
+} from "@/lib/api-errors";
+import { isPasskeyCancelled } from "@/lib/passkey";
+import { withServerApi } from "@/lib/server/api";
+import type { Passkey, TwoFactorSetupResponse } from "@/types/auth";
+
+const ME_KEY = ["/api/v1/auth/me"] as const;
+const PASSKEYS_KEY = ["/api/v1/auth/passkeys"] as const;
+
+// The middleware lets a session whose refresh failed through; send it to login
+export const getServerSideProps = withServerApi(async () => ({ props: {} }), {
+  requireAuth: true,
+});
+
+// Save the backup codes as a plain text file
+function downloadBackupCodes(codes: string[]) {
+  const content = [
+    "Kode cadangan Template Zacode",
+    "Setiap kode hanya bisa digunakan sekali.",
+    "",
+    ...codes,
+    "",
+  ].join("\n");
+  const url = URL.createObjectURL(new Blob([content], { type: "text/plain" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = "zacode-backup-codes.txt";
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function formatRelative(value: string) {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    return value;
+  }
+  return formatDistanceToNow(date, { addSuffix: true, locale: localeId });
+}
+
+const getPasskeyErrorMessage = (error: unknown) => {
+  if (!browserSupportsWebAuthn()) {
+    return "Browser ini tidak mendukung passkey.";
+  }
+  if (error instanceof WebAuthnError && error.code === "ERROR_AUTHENTICATOR_PREVIOUSLY_REGISTERED") {
+    return "Passkey untuk perangkat ini sudah terdaftar.";
+  }
+  return "Terjadi kesalahan. Silakan coba lagi.";
+};
+
+const getCodeErrorMessage = (error: unknown) =>
+  isApiError(error) && error.code === ApiErrorCode.InvalidTwoFactorCode
+    ? "Kode tidak valid. Silakan coba lagi."
+    : "Terjadi kesalahan. Silakan coba lagi.";
+
+// Passkeys of the current user: register this device's authenticator, or
+// remove one that is lost or no longer used. Both need a recent credential
+// check
+function PasskeysCard({ withReauth }: Pick<UseReauthResult, "withReauth">) {
+  const [name, setName] = useState("");
+  const [passkeyToDelete, setPasskeyToDelete] = useState<Passkey | null>(null);
+
+  const { data, error, isLoading, refetch } = useApiQuery(
+    PASSKEYS_KEY,
+    (api, { signal }) => api.getPasskeys({ signal })
+  );
+
+  // The whole registration ceremony: options, browser prompt, verification
+  const register = useApiMutation(
+    async (api, passkeyName: string) => {
+      const options = await api.getPasskeyRegistrationOptions();
+      const credential = await startRegistration({ optionsJSON: options });
+      return api.registerPasskey({ credential, name: passkeyName || undefined });
+    },
+    { invalidates: [PASSKEYS_KEY] }
+  );
+
+  const remove = useApiMutation(
+    (api, passkeyId: string) => api.deletePasskey(passkeyId),
+    { invalidates: [PASSKEYS_KEY] }
+  );
+
+  const handleRegister = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const { passkey } = await withReauth(() => register.mutateAsync(name.trim()));
+      setName("");
+      toast({
+        title: "✅ Passkey Ditambahkan",
+        description: `${passkey.name} kini bisa digunakan untuk login.`,
+      });
+    } catch (error) {
+      // Prompt dismissed or re-auth cancelled
+      if (isPasskeyCancelled(error) || isReauthRequiredError(error)) {
+        return;
+      }
+      toast({
+        title: "❌ Gagal Menambahkan Passkey",
+        description: getPasskeyErrorMessage(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!passkeyToDelete) {
+      return;
+    }
+
+    try {
+      await withReauth(() => remove.mutateAsync(passkeyToDelete.id));
+      toast({
+        title: "✅ Passkey Dihapus",
+        description: `${passkeyToDelete.name} tidak bisa digunakan lagi untuk login.`,
+      });
+    } catch (error) {
+      // Re-auth cancelled
+      if (isReauthRequiredError(error)) {
+        return;
+      }
+      if (isNotFoundError(error)) {
+        refetch().catch(() => {});
+      }
+      toast({
+        title: "❌ Gagal Menghapus Passkey",
+        description: isNotFoundError(error)
+          ? "Passkey tersebut sudah dihapus."
+          : "Terjadi kesalahan. Silakan coba lagi.",
+        variant: "destructive",
+      });
+    } finally {
+      setPasskeyToDelete(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-2xl">Passkey</CardTitle>
+        <CardDescription>
+          Masuk tanpa password menggunakan sidik jari, wajah, atau PIN
+          perangkat Anda.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading && <Skeleton className="h-16 w-full" />}
+
+        {!isLoading && error !== undefined && !data && (
+          <div className="text-center space-y-3 py-6">
+            <p className="text-sm text-gray-600">Gagal memuat daftar passkey.</p>
+            <Button variant="outline" onClick={() => refetch().catch(() => {})}>
+              Coba Lagi
+            </Button>
+          </div>
+        )}
+
+        {data?.passkeys.length === 0 && (
+          <p className="text-sm text-gray-600">Belum ada passkey terdaftar.</p>
+        )}
+
+        {data?.passkeys.map((passkey) => (
+          <div
+            key={passkey.id}
+            className="flex items-center justify-between gap-4 rounded-lg border p-4"
+          >
+            <div className="flex items-center gap-4 min-w-0">
+              <KeyRound className="h-5 w-5 text-gray-500" />
+              <div className="min-w-0">
+                <p className="font-medium truncate">{passkey.name}</p>
+                <p className="text-sm text-gray-600 truncate">
+                  {[
+                    `ditambahkan ${formatRelative(passkey.created_at)}`,
+                    passkey.last_used_at &&
+                      `terakhir dipakai ${formatRelative(passkey.last_used_at)}`,
+                  ]
+                    .filter(Boolean)
+                    .join(" · ")}
+                </p>
+              </div>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={remove.isLoading}
+              onClick={() => setPasskeyToDelete(passkey)}
+            >
+              Hapus
+            </Button>
+          </div>
+        ))}
+
+        <form onSubmit={handleRegister} className="flex gap-2 pt-3">
+          <Input
+            placeholder="Nama passkey (mis. Laptop Kantor)"
+            maxLength={64}
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            disabled={register.isLoading}
+          />
+          <Button type="submit" disabled={register.isLoading}>
+            {register.isLoading ? "Menunggu..." : "Tambah Passkey"}
+          </Button>
+        </form>
+      </CardContent>
+
+      <ConfirmDialog
+        isOpen={passkeyToDelete !== null}
+        onClose={() => setPasskeyToDelete(null)}
+        onConfirm={handleDelete}
+        title="Hapus Passkey?"
+        description={
+          passkeyToDelete
+            ? `${passkeyToDelete.name} tidak bisa digunakan lagi untuk login.`
+            : ""
+        }
+        confirmText="Hapus"
+        cancelText="Batal"
+        variant="destructive"
+        isLoading={remove.isLoading}
+      />
+    </Card>
+  );
+}
+
+export default function SecuritySettings() {
+  const [enrollment, setEnrollment] = useState<TwoFactorSetupResponse | null>(null);
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null);
+  const [enableCode, setEnableCode] = useState("");
+  const [disableCode, setDisableCode] = useState("");
+
+  const { data, error, isLoading, refetch } = useApiQuery(
+    ME_KEY,
+    (api, { signal }) => api.getCurrentUser({ signal })
+  );
+
+  const setup = useApiMutation((api) => api.setupTwoFactor());
+  const enable = useApiMutation(
+    (api, code: string) => api.enableTwoFactor(code),
+    { invalidates: [ME_KEY] }
+  );
+  const disable = useApiMutation(
+    (api, code: string) => api.disableTwoFactor(code),
+    { invalidates: [ME_KEY] }
+  );
+  // Changing 2FA or passkeys needs a recent credential check
+  const { withReauth, dialogProps: reauthDialogProps } = useReauth();
+
+  const isEnabled = !!data?.user.two_factor_enabled;
+
+  const handleSetup = async () => {
+    try {
+      setEnrollment(await withReauth(() => setup.mutateAsync()));
+    } catch (error) {
+      if (isReauthRequiredError(error)) {
+        return;
+      }
+      // Enabled meanwhile, e.g. from another tab
+      if (isConflictError(error)) {
+        refetch().catch(() => {});
+      }
+      toast({
+        title: "❌ Gagal Memulai Pengaturan",
+        description: isConflictError(error)
+          ? "Autentikasi dua langkah sudah aktif."
+          : "Terjadi kesalahan. Silakan coba lagi.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleEnable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const response = await withReauth(() => enable.mutateAsync(enableCode.trim()));
+      setEnrollment(null);
+      setEnableCode("");
+      setBackupCodes(response.backup_codes);
+      toast({
+        title: "✅ 2FA Aktif",
+        description: "Simpan kode cadangan Anda di tempat yang aman.",
+      });
+    } catch (error) {
+      // Re-auth cancelled: keep the code for another try
+      if (isReauthRequiredError(error)) {
+        return;
+      }
+      setEnableCode("");
+      toast({
+        title: "❌ Gagal Mengaktifkan 2FA",
+        description: getCodeErrorMessage(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDisable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await withReauth(() => disable.mutateAsync(disableCode.trim()));
+      setDisableCode("");
+      setBackupCodes(null);
+      toast({
+        title: "✅ 2FA Dinonaktifkan",
+        description: "Login kini hanya memerlukan password.",
+      });
+    } catch (error) {
+      // Re-auth cancelled: keep the code for another try
+      if (isReauthRequiredError(error)) {
+        return;
+      }
+      setDisableCode("");
+      toast({
+        title: "❌ Gagal Menonaktifkan 2FA",
+        description: getCodeErrorMessage(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+      <main className="max-w-3xl mx-auto py-10 px-4 space-y-6">
+        <Card>
+          <CardHeader>
+            <div className="flex items-center gap-2">
+              <CardTitle className="text-2xl">Autentikasi Dua Langkah</CardTitle>
+              {isEnabled && <Badge variant="secondary">Aktif</Badge>}
+            </div>
+            <CardDescription>
+              Selain password, login akan meminta kode dari aplikasi
+              autentikator seperti Google Authenticator atau Authy.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {isLoading && <Skeleton className="h-24 w-full" />}
+
+            {!isLoading && error !== undefined && !data && (
+              <div className="text-center space-y-3 py-6">
+                <p className="text-sm text-gray-600">
+                  Gagal memuat pengaturan keamanan.
+                </p>
+                <Button variant="outline" onClick={() => refetch().catch(() => {})}>
+                  Coba Lagi
+                </Button>
+              </div>
+            )}
+
+            {backupCodes && (
+              <div className="space-y-3 rounded-lg border p-4">
+                <p className="font-medium">Kode Cadangan</p>
+                <p className="text-sm text-gray-600">
+                  Gunakan salah satu kode ini jika Anda tidak bisa membuka
+                  aplikasi autentikator. Setiap kode hanya berlaku sekali dan
+                  tidak akan ditampilkan lagi.
+                </p>
+                <div className="grid grid-cols-2 gap-2 font-mono text-sm">
+                  {backupCodes.map((code) => (
+                    <span key={code} className="rounded bg-gray-100 px-2 py-1 text-center">
+                      {code}
+                    </span>
+                  ))}
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="outline" onClick={() => downloadBackupCodes(backupCodes)}>
+                    <Download className="mr-2 h-4 w-4" />
+                    Unduh
+                  </Button>
+                  <Button variant="ghost" onClick={() => setBackupCodes(null)}>
+                    Sudah Disimpan
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {data && !isEnabled && !enrollment && (
+              <Button onClick={handleSetup} disabled={setup.isLoading}>
+                <ShieldCheck className="mr-2 h-4 w-4" />
+                {setup.isLoading ? "Menyiapkan..." : "Aktifkan 2FA"}
+              </Button>
+            )}
+
+            {data && !isEnabled && enrollment && (
+              <form onSubmit={handleEnable} className="space-y-4">
+                <p className="text-sm text-gray-600">
+                  1. Pindai kode QR ini dengan aplikasi autentikator Anda, atau
+                  masukkan kunci secara manual.
+                </p>
+                <div className="flex flex-col items-center gap-3">
+                  <div className="rounded-lg bg-white p-3">
+                    <QRCodeSVG value={enrollment.otpauth_url} size={180} />
+                  </div>
+                  <code className="break-all rounded bg-gray-100 px-2 py-1 text-sm">
+                    {enrollment.secret}
+                  </code>
+                </div>
+                <div className="grid gap-3">
+                  <Label htmlFor="enable-code">
+                    2. Masukkan kode 6 digit dari aplikasi untuk konfirmasi
+                  </Label>
+                  <Input
+                    id="enable-code"
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    placeholder="6 digit kode"
+                    maxLength={6}
+                    value={enableCode}
+                    onChange={(e) => setEnableCode(e.target.value)}
+                    disabled={enable.isLoading}
+                    required
+                  />
+                </div>
+                <div className="flex gap-2">
+                  <Button type="submit" disabled={enable.isLoading || enableCode.trim().length !== 6}>
+                    {enable.isLoading ? "Memverifikasi..." : "Konfirmasi"}
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    onClick={() => {
+                      setEnrollment(null);
+                      setEnableCode("");
+                    }}
+                    disabled={enable.isLoading}
+                  >
+                    Batal
+                  </Button>
+                </div>
+              </form>
+            )}
+
+            {isEnabled && (
+              <form onSubmit={handleDisable} className="space-y-4">
+                <div className="grid gap-3">
+                  <Label htmlFor="disable-code">
+                    Masukkan kode autentikasi atau kode cadangan untuk
+                    menonaktifkan 2FA
+                  </Label>
+                  <Input
+                    id="disable-code"
+                    autoComplete="one-time-code"
+                    placeholder="Kode autentikasi atau cadangan"
+                    maxLength={9}
+                    value={disableCode}
+                    onChange={(e) => setDisableCode(e.target.value)}
+                    disabled={disable.isLoading}
+                    required
+                  />
+                </div>
+                <Button
+                  type="submit"
+                  variant="destructive"
+                  disabled={disable.isLoading || !disableCode.trim()}
+                >
+                  {disable.isLoading ? "Menonaktifkan..." : "Nonaktifkan 2FA"}
+                </Button>
+              </form>
+            )}
+          </CardContent>
+        </Card>
+
+        <PasskeysCard withReauth={withReauth} />
+      </main>
+      <ReauthDialog {...reauthDialogProps} />
+    </div>
+  );
+}
@@ -0,0 +1,210 @@
+import { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { id as localeId } from "date-fns/locale";
+import { Laptop, Smartphone, Tablet } from "lucide-react";
+import { ReauthDialog } from "@/components/auth/ReauthDialog";
+import Navbar from "@/components/general/Navbar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { ConfirmDialog } from "@/components/ui/confirm-dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+import { toast } from "@/hooks/use-toast";
+import { useApiMutation, useApiQuery } from "@/hooks/use-api-query";
+import { useReauth } from "@/hooks/use-reauth";
+import { isNotFoundError, isReauthRequiredError } from "@/lib/api-errors";
+import { getProviderLabel } from "@/lib/auth-providers";
+import { withServerApi } from "@/lib/server/api";
+import type { ActiveSession } from "@/types/auth";
+
+const SESSIONS_KEY = ["/api/v1/auth/sessions"] as const;
+
+// The middleware lets a session whose refresh failed through; send it to login
+export const getServerSideProps = withServerApi(async () => ({ props: {} }), {
+  requireAuth: true,
+});
+
+const LOGIN_TYPE_LABELS: Record<string, string> = {
+  credential: "email & password",
+  passkey: "passkey",
+  "magic-link": "link email",
+};
+
+function DeviceIcon({ device }: { device?: string | null }) {
+  if (device === "Mobile") {
+    return <Smartphone className="h-5 w-5" />;
+  }
+  if (device === "Tablet") {
+    return <Tablet className="h-5 w-5" />;
+  }
+  return <Laptop className="h-5 w-5" />;
+}
+
+function describeSession(session: ActiveSession) {
+  const client = [session.browser, session.os].filter(Boolean).join(" di ");
+  return client || session.device || "Perangkat tidak dikenal";
+}
+
+function formatLastActive(value: string) {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    return value;
+  }
+  return formatDistanceToNow(date, { addSuffix: true, locale: localeId });
+}
+
+export default function SessionsSettings() {
+  const [sessionToRevoke, setSessionToRevoke] = useState<ActiveSession | null>(null);
+
+  const { data, error, isLoading, refetch } = useApiQuery(
+    SESSIONS_KEY,
+    (api, { signal }) => api.getSessions({ signal })
+  );
+
+  const revoke = useApiMutation(
+    (api, sessionId: string) => api.revokeSession(sessionId),
+    { invalidates: [SESSIONS_KEY] }
+  );
+  // Ending another device's session needs a recent credential check
+  const { withReauth, dialogProps: reauthDialogProps } = useReauth();
+
+  const handleRevoke = async () => {
+    if (!sessionToRevoke) {
+      return;
+    }
+
+    try {
+      await withReauth(() => revoke.mutateAsync(sessionToRevoke.id));
+      toast({
+        title: "✅ Sesi Diakhiri",
+        description: `${describeSession(sessionToRevoke)} telah dikeluarkan.`,
+      });
+    } catch (error) {
+      // Re-auth cancelled
+      if (isReauthRequiredError(error)) {
+        return;
+      }
+      // Already gone, e.g. signed out on that device meanwhile
+      if (isNotFoundError(error)) {
+        refetch().catch(() => {});
+      }
+      toast({
+        title: "❌ Gagal Mengakhiri Sesi",
+        description: isNotFoundError(error)
+          ? "Sesi tersebut sudah tidak aktif."
+          : "Terjadi kesalahan. Silakan coba lagi.",
+        variant: "destructive",
+      });
+    } finally {
+      setSessionToRevoke(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+      <main className="max-w-3xl mx-auto py-10 px-4">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-2xl">Sesi Aktif</CardTitle>
+            <CardDescription>
+              Perangkat yang sedang masuk ke akun Anda. Akhiri sesi yang tidak
+              Anda kenali.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {isLoading &&
+              Array.from({ length: 3 }, (_, index) => (
+                <Skeleton key={index} className="h-20 w-full" />
+              ))}
+
+            {!isLoading && error !== undefined && !data && (
+              <div className="text-center space-y-3 py-6">
+                <p className="text-sm text-gray-600">
+                  Gagal memuat daftar sesi.
+                </p>
+                <Button variant="outline" onClick={() => refetch().catch(() => {})}>
+                  Coba Lagi
+                </Button>
+              </div>
+            )}
+
+            {data?.sessions.length === 0 && (
+              <p className="text-sm text-gray-600 text-center py-6">
+                Tidak ada sesi aktif.
+              </p>
+            )}
+
+            {data?.sessions.map((session) => (
+              <div
+                key={session.id}
+                className="flex items-center justify-between gap-4 rounded-lg border p-4"
+              >
+                <div className="flex items-center gap-4 min-w-0">
+                  <div className="text-gray-500">
+                    <DeviceIcon device={session.device} />
+                  </div>
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <p className="font-medium truncate">
+                        {describeSession(session)}
+                      </p>
+                      {session.is_current && (
+                        <Badge variant="secondary">Sesi Ini</Badge>
+                      )}
+                    </div>
+                    <p className="text-sm text-gray-600 truncate">
+                      {[
+                        session.ip_address,
+                        `aktif ${formatLastActive(session.last_login)}`,
+                        `via ${LOGIN_TYPE_LABELS[session.login_type] ?? getProviderLabel(session.login_type)}`,
+                      ]
+                        .filter(Boolean)
+                        .join(" · ")}
+                    </p>
+                  </div>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={session.is_current || revoke.isLoading}
+                  title={
+                    session.is_current
+                      ? "Gunakan Logout untuk mengakhiri sesi ini"
+                      : undefined
+                  }
+                  onClick={() => setSessionToRevoke(session)}
+                >
+                  Akhiri
+                </Button>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      </main>
+
+      <ConfirmDialog
+        isOpen={sessionToRevoke !== null}
+        onClose={() => setSessionToRevoke(null)}
+        onConfirm={handleRevoke}
+        title="Akhiri Sesi?"
+        description={
+          sessionToRevoke
+            ? `${describeSession(sessionToRevoke)} akan dikeluarkan dari akun Anda.`
+            : ""
+        }
+        confirmText="Akhiri Sesi"
+        cancelText="Batal"
+        variant="destructive"
+        isLoading={revoke.isLoading}
+      />
+      <ReauthDialog {...reauthDialogProps} />
+    </div>
+  );
+}
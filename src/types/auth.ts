@@ -1,93 +1,151 @@
-// Auth Types
-export interface User {
-  id: string;
-  email: string;
-  username?: string;
-  phone?: string;
-  full_name: string;
-  user_type: string;
-  profile_photo?: string;
-  date_of_birth?: string;
-  gender?: string;
-  is_active?: boolean;
-  is_verified: boolean;
-  last_login?: string;
-  login_type: string;
-  created_at: string;
-}
-
-export interface AuthResponse {
-  user: User;
-  access_token: string;
-  refresh_token: string;
-  expires_in: number;
-  requires_verification?: boolean;
-  verification_token?: string;
-}
-
-export interface RegisterRequest {
-  full_name: string;
-  email: string;
-  phone?: string;
-  password: string;
-  user_type?: string;
-  gender?: string;
-  date_of_birth?: string;
-}
-
-export interface LoginRequest {
-  email: string;
-  password: string;
-}
-
-export interface OTPVerifyRequest {
-  email: string;
-  otp_code: string;
-}
-
-export interface ResendOTPRequest {
-  email: string;
-}
-
-export interface RegisterResponse {
-  message: string;
-  user: User;
-  requires_verification?: boolean;
-  verification_token?: string;
-}
-
-export interface OTPVerifyResponse {
-  user: User;
-  access_token: string;
-  refresh_token: string;
-  expires_in: number;
-}
-
-export interface ResendOTPResponse {
-  message: string;
-}
-
-export interface ResetPasswordRequest {
-  email: string;
-}
-
-export interface VerifyResetPasswordRequest {
-  email: string;
-  otp_code: string;
-  new_password: string;
-}
-
-export interface ResetPasswordResponse {
-  message: string;
-}
-
-export interface VerifyResetPasswordResponse {
-  message: string;
-}
-
-export interface GoogleOAuthRequest {
-  email: string;
-  full_name: string;
-  profile_photo: string;
-  google_id: string;
-}
+// Auth Types (inferred from the runtime schemas in @/lib/schemas/auth)
+import type { z } from "zod";
+import type {
+  UserSchema,
+  AuthResponseSchema,
+  TokenResponseSchema,
+  RefreshTokenResponseSchema,
+  CurrentUserResponseSchema,
+  RegisterRequestSchema,
+  LoginRequestSchema,
+  OTPVerifyRequestSchema,
+  ResendOTPRequestSchema,
+  RegisterResponseSchema,
+  OTPVerifyResponseSchema,
+  ResendOTPResponseSchema,
+  ResetPasswordRequestSchema,
+  VerifyResetPasswordRequestSchema,
+  ResetPasswordResponseSchema,
+  VerifyResetPasswordResponseSchema,
+  ResetPasswordWithTokenRequestSchema,
+  OAuthRequestSchema,
+  LogoutResponseSchema,
+  ActiveSessionSchema,
+  ActiveSessionsResponseSchema,
+  RevokeSessionResponseSchema,
+  TwoFactorSetupResponseSchema,
+  TwoFactorEnableResponseSchema,
+  TwoFactorDisableResponseSchema,
+  TwoFactorVerifyRequestSchema,
+  PasskeySchema,
+  PasskeysResponseSchema,
+  PasskeyRegistrationOptionsSchema,
+  PasskeyRegistrationRequestSchema,
+  PasskeyRegistrationResponseSchema,
+  DeletePasskeyResponseSchema,
+  PasskeyLoginOptionsResponseSchema,
+  PasskeyLoginRequestSchema,
+  MagicLinkRequestSchema,
+  MagicLinkResponseSchema,
+  LinkAccountRequestSchema,
+  ConnectedAccountSchema,
+  ConnectedAccountsResponseSchema,
+  ConnectAccountRequestSchema,
+  ConnectAccountResponseSchema,
+  ConnectTokenResponseSchema,
+  OAuthConnectRequestSchema,
+  OAuthConnectResponseSchema,
+  UnlinkAccountResponseSchema,
+  SetPasswordRequestSchema,
+  SetPasswordResponseSchema,
+} from "@/lib/schemas/auth";
+
+export type User = z.infer<typeof UserSchema>;
+
+export type AuthResponse = z.infer<typeof AuthResponseSchema>;
+
+export type TokenResponse = z.infer<typeof TokenResponseSchema>;
+
+export type RefreshTokenResponse = z.infer<typeof RefreshTokenResponseSchema>;
+
+export type CurrentUserResponse = z.infer<typeof CurrentUserResponseSchema>;
+
+export type RegisterRequest = z.infer<typeof RegisterRequestSchema>;
+
+export type LoginRequest = z.infer<typeof LoginRequestSchema>;
+
+export type OTPVerifyRequest = z.infer<typeof OTPVerifyRequestSchema>;
+
+export type ResendOTPRequest = z.infer<typeof ResendOTPRequestSchema>;
+
+export type RegisterResponse = z.infer<typeof RegisterResponseSchema>;
+
+export type OTPVerifyResponse = z.infer<typeof OTPVerifyResponseSchema>;
+
+export type ResendOTPResponse = z.infer<typeof ResendOTPResponseSchema>;
+
+export type ResetPasswordRequest = z.infer<typeof ResetPasswordRequestSchema>;
+
+export type VerifyResetPasswordRequest = z.infer<
+  typeof VerifyResetPasswordRequestSchema
+>;
+
+export type ResetPasswordResponse = z.infer<typeof ResetPasswordResponseSchema>;
+
+export type VerifyResetPasswordResponse = z.infer<
+  typeof VerifyResetPasswordResponseSchema
+>;
+
+export type ResetPasswordWithTokenRequest = z.infer<
+  typeof ResetPasswordWithTokenRequestSchema
+>;
+
+export type OAuthRequest = z.infer<typeof OAuthRequestSchema>;
+
+export type LogoutResponse = z.infer<typeof LogoutResponseSchema>;
+
+export type ActiveSession = z.infer<typeof ActiveSessionSchema>;
+
+export type ActiveSessionsResponse = z.infer<typeof ActiveSessionsResponseSchema>;
+
+export type RevokeSessionResponse = z.infer<typeof RevokeSessionResponseSchema>;
+
+export type TwoFactorSetupResponse = z.infer<typeof TwoFactorSetupResponseSchema>;
+
+export type TwoFactorEnableResponse = z.infer<typeof TwoFactorEnableResponseSchema>;
+
+export type TwoFactorDisableResponse = z.infer<typeof TwoFactorDisableResponseSchema>;
+
+export type TwoFactorVerifyRequest = z.infer<typeof TwoFactorVerifyRequestSchema>;
+
+export type Passkey = z.infer<typeof PasskeySchema>;
+
+export type PasskeysResponse = z.infer<typeof PasskeysResponseSchema>;
+
+export type PasskeyRegistrationOptions = z.infer<typeof PasskeyRegistrationOptionsSchema>;
+
+export type PasskeyRegistrationRequest = z.infer<typeof PasskeyRegistrationRequestSchema>;
+
+export type PasskeyRegistrationResponse = z.infer<typeof PasskeyRegistrationResponseSchema>;
+
+export type DeletePasskeyResponse = z.infer<typeof DeletePasskeyResponseSchema>;
+
+export type PasskeyLoginOptionsResponse = z.infer<typeof PasskeyLoginOptionsResponseSchema>;
+
+export type PasskeyLoginRequest = z.infer<typeof PasskeyLoginRequestSchema>;
+
+export type MagicLinkRequest = z.infer<typeof MagicLinkRequestSchema>;
+
+export type MagicLinkResponse = z.infer<typeof MagicLinkResponseSchema>;
+
+export type LinkAccountRequest = z.infer<typeof LinkAccountRequestSchema>;
+
+export type ConnectedAccount = z.infer<typeof ConnectedAccountSchema>;
+
+export type ConnectedAccountsResponse = z.infer<typeof ConnectedAccountsResponseSchema>;
+
+export type ConnectAccountRequest = z.infer<typeof ConnectAccountRequestSchema>;
+
+export type ConnectAccountResponse = z.infer<typeof ConnectAccountResponseSchema>;
+
+export type ConnectTokenResponse = z.infer<typeof ConnectTokenResponseSchema>;
+
+export type OAuthConnectRequest = z.infer<typeof OAuthConnectRequestSchema>;
+
+export type OAuthConnectResponse = z.infer<typeof OAuthConnectResponseSchema>;
+
+export type UnlinkAccountResponse = z.infer<typeof UnlinkAccountResponseSchema>;
+
+export type SetPasswordRequest = z.infer<typeof SetPasswordRequestSchema>;
+
+export type SetPasswordResponse = z.infer<typeof SetPasswordResponseSchema>;
@@ -6,6 +6,10 @@ declare module "next-auth" {
     id?: string;
     accessToken?: string;
     refreshToken?: string;
+    // Lifetime of the access token in seconds, from the response that issued it
+    expiresIn?: number;
+    // "Remember me" was checked on the login form
+    rememberMe?: boolean;
     isVerified?: boolean;
     userType?: string;
     loginType?: string;
@@ -20,8 +24,22 @@ declare module "next-auth" {
       role?: string;
       username?: string;
     };
-    accessToken?: string;
-    refreshToken?: string;
+    // When the browser should renew the session (ms since the epoch)
+    refreshAt?: number;
+    // Set when the access token could not be refreshed
+    error?: "RefreshAccessTokenError";
+    // Last credential check (ms since the epoch), see requireRecentAuth
+    authTime?: number;
+    // When the session ends (ms since the epoch); the browser warns
+    // `idleWarningSeconds` before the idle timeout
+    policy?: {
+      idleExpiresAt: number | null;
+      maxAgeExpiresAt: number;
+      idleWarningSeconds: number;
+      // The server's clock when it sent these deadlines; the browser counts
+      // down against it rather than its own clock
+      serverNow: number;
+    };
     isVerified?: boolean;
     userType?: string;
     loginType?: string;
@@ -36,6 +54,13 @@ declare module "next-auth/jwt" {
     userType?: string;
     loginType?: string;
     accessTokenExpires?: number;
+    error?: "RefreshAccessTokenError";
+    // Session policy timestamps (ms since the epoch)
+    signedInAt?: number;
+    lastActivityAt?: number;
+    rememberMe?: boolean;
+    // Last credential check: sign-in or step-up re-authentication
+    authTime?: number;
   }
 }
 